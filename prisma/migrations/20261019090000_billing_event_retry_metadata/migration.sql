@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "billing_events" ADD COLUMN     "attempt_number" INTEGER DEFAULT 1,
+ADD COLUMN     "retry_policy" VARCHAR(50);
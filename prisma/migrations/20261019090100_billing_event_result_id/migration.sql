@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "billing_events" ADD COLUMN     "result_id" VARCHAR(100);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_events_result_id_key" ON "billing_events"("result_id");
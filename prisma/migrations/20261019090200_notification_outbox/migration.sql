@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "notification_outbox" (
+    "id" BIGSERIAL NOT NULL,
+    "message_id" VARCHAR(100) NOT NULL,
+    "subscription_id" VARCHAR(100) NOT NULL,
+    "event_type" VARCHAR(50) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" VARCHAR(30) NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "sent_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_outbox_message_id_key" ON "notification_outbox"("message_id");
+
+-- CreateIndex
+CREATE INDEX "idx_outbox_status_next_attempt" ON "notification_outbox"("status", "next_attempt_at");
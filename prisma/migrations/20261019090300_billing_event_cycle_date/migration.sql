@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "billing_events" ADD COLUMN     "cycle_date" DATE;
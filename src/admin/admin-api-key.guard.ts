@@ -0,0 +1,44 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+export const ADMIN_API_KEY_HEADER = 'x-admin-api-key';
+
+/**
+ * Requires the configured admin API key. Rejects every request when no key
+ * is configured.
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  private readonly apiKey: Buffer;
+
+  constructor(private readonly configService: ConfigService) {
+    this.apiKey = Buffer.from(
+      this.configService.get<string>('admin.apiKey', ''),
+    );
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const header = request.headers[ADMIN_API_KEY_HEADER];
+    const provided = Buffer.from(
+      (Array.isArray(header) ? header[0] : header) ?? '',
+    );
+
+    if (
+      !this.apiKey.length ||
+      provided.length !== this.apiKey.length ||
+      !timingSafeEqual(provided, this.apiKey)
+    ) {
+      throw new UnauthorizedException('Invalid admin API key');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  FALLBACK_STATES,
+  FallbackState,
+} from 'src/event-publisher/notification-fallback.store';
+import { AdminApiKeyGuard } from './admin-api-key.guard';
+import { ADMIN_JOB_STATES, AdminJobState, AdminService } from './admin.service';
+
+const RUN_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Operational endpoints for renewals and their queues. Every route requires
+ * the admin API key.
+ */
+@Controller('admin')
+@UseGuards(AdminApiKeyGuard)
+export class AdminController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @Post('renewals/run')
+  @HttpCode(HttpStatus.ACCEPTED)
+  triggerDispatch() {
+    return this.adminService.triggerDispatch();
+  }
+
+  /**
+   * Latest dispatch run, or the run for `date` (YYYY-MM-DD, billing timezone).
+   */
+  @Get('renewals/runs/latest')
+  getLatestDispatchRun() {
+    return this.adminService.getDispatchRun();
+  }
+
+  @Get('renewals/runs/:date')
+  getDispatchRun(@Param('date') date: string) {
+    if (!RUN_DATE_PATTERN.test(date)) {
+      throw new BadRequestException('date must be formatted as YYYY-MM-DD');
+    }
+    return this.adminService.getDispatchRun(date);
+  }
+
+  @Post('subscriptions/:subscriptionId/renew')
+  @HttpCode(HttpStatus.ACCEPTED)
+  renewSubscription(@Param('subscriptionId') subscriptionId: string) {
+    return this.adminService.renewSubscription(subscriptionId);
+  }
+
+  @Get('queues')
+  listQueues() {
+    return this.adminService.listQueues();
+  }
+
+  @Get('rate-limits')
+  getRateLimitStats() {
+    return this.adminService.getRateLimitStats();
+  }
+
+  @Get('circuit-breakers')
+  getCircuitBreakers() {
+    return this.adminService.getCircuitBreakers();
+  }
+
+  @Post('blacklist/refresh')
+  @HttpCode(HttpStatus.OK)
+  refreshBlacklist() {
+    return this.adminService.refreshBlacklist();
+  }
+
+  @Get('notifications/fallback/stats')
+  getFallbackStats() {
+    return this.adminService.getFallbackStats();
+  }
+
+  /**
+   * Pages through fallback notifications with a SCAN cursor; start with
+   * cursor 0 and stop once it comes back as '0'.
+   */
+  @Get('notifications/fallback')
+  listFallbackMessages(
+    @Query('state', new DefaultValuePipe('pending')) state: string,
+    @Query('cursor', new DefaultValuePipe('0')) cursor: string,
+    @Query('size', new DefaultValuePipe(50), ParseIntPipe) size: number,
+  ) {
+    if (!FALLBACK_STATES.includes(state as FallbackState)) {
+      throw new BadRequestException(
+        `state must be one of ${FALLBACK_STATES.join(', ')}`,
+      );
+    }
+    if (!/^\d+$/.test(cursor) || size < 1) {
+      throw new BadRequestException('cursor must be numeric and size >= 1');
+    }
+
+    return this.adminService.listFallbackMessages(
+      state as FallbackState,
+      cursor,
+      size,
+    );
+  }
+
+  @Get('notifications/fallback/:messageId')
+  getFallbackMessage(@Param('messageId') messageId: string) {
+    return this.adminService.getFallbackMessage(messageId);
+  }
+
+  @Post('notifications/fallback/:messageId/replay')
+  @HttpCode(HttpStatus.OK)
+  replayFallbackMessage(@Param('messageId') messageId: string) {
+    return this.adminService.replayFallbackMessage(messageId);
+  }
+
+  @Post('queues/:operator/pause')
+  @HttpCode(HttpStatus.OK)
+  pauseQueue(@Param('operator') operator: string) {
+    return this.adminService.pauseQueue(operator.toUpperCase());
+  }
+
+  @Post('queues/:operator/resume')
+  @HttpCode(HttpStatus.OK)
+  resumeQueue(@Param('operator') operator: string) {
+    return this.adminService.resumeQueue(operator.toUpperCase());
+  }
+
+  @Get('queues/:operator/jobs')
+  listJobs(
+    @Param('operator') operator: string,
+    @Query('state', new DefaultValuePipe('failed')) state: string,
+    @Query('start', new DefaultValuePipe(0), ParseIntPipe) start: number,
+    @Query('size', new DefaultValuePipe(50), ParseIntPipe) size: number,
+  ) {
+    if (!ADMIN_JOB_STATES.includes(state as AdminJobState)) {
+      throw new BadRequestException(
+        `state must be one of ${ADMIN_JOB_STATES.join(', ')}`,
+      );
+    }
+    if (start < 0 || size < 1) {
+      throw new BadRequestException('start must be >= 0 and size >= 1');
+    }
+
+    return this.adminService.listJobs(
+      operator.toUpperCase(),
+      state as AdminJobState,
+      start,
+      size,
+    );
+  }
+
+  @Post('queues/:operator/jobs/:jobId/retry')
+  @HttpCode(HttpStatus.OK)
+  retryJob(@Param('operator') operator: string, @Param('jobId') jobId: string) {
+    return this.adminService.retryJob(operator.toUpperCase(), jobId);
+  }
+
+  @Delete('queues/:operator/jobs/:jobId')
+  removeJob(
+    @Param('operator') operator: string,
+    @Param('jobId') jobId: string,
+  ) {
+    return this.adminService.removeJob(operator.toUpperCase(), jobId);
+  }
+}
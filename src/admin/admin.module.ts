@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { BlacklistModule } from 'src/blacklist/blacklist.module';
+import { EventPublisherModule } from 'src/event-publisher/event-publisher.module';
+import { PaymentModule } from 'src/payment/payment.module';
+import { RenewalModule } from 'src/renewal/renewal.module';
+import { AdminApiKeyGuard } from './admin-api-key.guard';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+
+@Module({
+  imports: [
+    RenewalModule,
+    PaymentModule,
+    EventPublisherModule,
+    BlacklistModule,
+  ],
+  controllers: [AdminController],
+  providers: [AdminService, AdminApiKeyGuard],
+})
+export class AdminModule {}
@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Job, Queue } from 'bullmq';
+import { PinoLogger } from 'nestjs-pino';
+import { BlacklistService } from 'src/blacklist/blacklist.service';
+import { EventPublisherService } from 'src/event-publisher/event-publisher.service';
+import { FallbackState } from 'src/event-publisher/notification-fallback.store';
+import { SubscriptionRepository } from 'src/database/subscription.repository';
+import { OperatorAdapterRegistry } from 'src/payment/operator-adapter.registry';
+import { OperatorCircuitBreaker } from 'src/payment/operator-circuit-breaker.service';
+import { OperatorRateLimiter } from 'src/payment/operator-rate-limiter.service';
+import { DispatchCheckpointService } from 'src/renewal/dispatch-checkpoint.service';
+import { RenewalScheduler } from 'src/renewal/renewal.schedular';
+import { RenewalJobData, RenewalService } from 'src/renewal/renewal.service';
+
+/** Job states that can be listed through the admin API. */
+export const ADMIN_JOB_STATES = ['delayed', 'failed'] as const;
+
+export type AdminJobState = (typeof ADMIN_JOB_STATES)[number];
+
+const MAX_PAGE_SIZE = 100;
+
+@Injectable()
+export class AdminService {
+  constructor(
+    private readonly renewalService: RenewalService,
+    private readonly renewalScheduler: RenewalScheduler,
+    private readonly checkpoints: DispatchCheckpointService,
+    private readonly subscriptionRepo: SubscriptionRepository,
+    private readonly operatorAdapters: OperatorAdapterRegistry,
+    private readonly rateLimiter: OperatorRateLimiter,
+    private readonly circuitBreaker: OperatorCircuitBreaker,
+    private readonly eventPublisher: EventPublisherService,
+    private readonly blacklistService: BlacklistService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(AdminService.name);
+  }
+
+  /**
+   * Starts today's dispatch run in the background. A completed run is
+   * started over; subscriptions already queued are not queued twice.
+   */
+  async triggerDispatch() {
+    const runDate = this.checkpoints.getRunDate();
+
+    // Runs in the background; progress is tracked on the checkpoint.
+    this.renewalScheduler
+      .runDispatch(runDate, { restart: true })
+      .catch((error: unknown) =>
+        this.logger.error(
+          { error: String(error), runDate },
+          'Manually triggered renewal dispatch failed.',
+        ),
+      );
+    this.logger.info({ msg: 'Renewal dispatch triggered manually', runDate });
+
+    return { runDate, checkpoint: await this.checkpoints.get(runDate) };
+  }
+
+  async getDispatchRun(runDate?: string) {
+    const checkpoint = runDate
+      ? await this.checkpoints.get(runDate)
+      : await this.checkpoints.getLatest();
+
+    if (!checkpoint) {
+      throw new NotFoundException(
+        runDate
+          ? `No renewal dispatch run for ${runDate}`
+          : 'No recent renewal dispatch run',
+      );
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * Queues an immediate renewal attempt for one subscription.
+   */
+  async renewSubscription(subscriptionId: string) {
+    const subscription =
+      await this.subscriptionRepo.findRenewableById(subscriptionId);
+    if (!subscription) {
+      throw new NotFoundException(`Subscription ${subscriptionId} not found`);
+    }
+
+    // Rejects subscriptions of unknown operators.
+    this.getQueue(subscription.payment_channels.code);
+
+    // A pending renewal or retry job is replaced by the immediate attempt;
+    // one that already started is left to finish.
+    const started = await this.renewalService.findStartedJob(subscription);
+    if (started) {
+      throw new ConflictException(
+        `Subscription ${subscriptionId} already has a ${started.state} renewal job (${started.jobId})`,
+      );
+    }
+    const replaced = await this.renewalService.removePendingJobs(subscription);
+
+    const queued = await this.renewalService.dispatchRenewalJob(
+      { subscriptionId, data: subscription },
+      0,
+    );
+    this.logger.info({
+      msg: 'Subscription renewal triggered manually',
+      subscriptionId,
+      replaced,
+      queued,
+    });
+
+    return { subscriptionId, queued };
+  }
+
+  async listQueues() {
+    return Promise.all(
+      this.operatorAdapters.list().map(async ({ code }) => {
+        const queue = this.getQueue(code);
+        return {
+          operator: code,
+          queue: queue.name,
+          paused: await queue.isPaused(),
+          counts: await queue.getJobCounts(
+            'waiting',
+            'active',
+            'delayed',
+            'failed',
+          ),
+        };
+      }),
+    );
+  }
+
+  /** Throttling counters of this replica since it started. */
+  getRateLimitStats() {
+    return this.rateLimiter.getStats();
+  }
+
+  /** Circuit breaker state shared by all replicas, per operator. */
+  async getCircuitBreakers() {
+    return await this.circuitBreaker.getSnapshot(
+      this.operatorAdapters.list().map(({ code }) => code),
+    );
+  }
+
+  /**
+   * Makes blacklist changes take effect on the next screening instead of
+   * when the cached snapshot expires.
+   */
+  async refreshBlacklist() {
+    await this.blacklistService.invalidate();
+    return { refreshed: true };
+  }
+
+  async pauseQueue(operatorCode: string) {
+    const queue = this.getQueue(operatorCode);
+    await queue.pause();
+    this.logger.warn({ msg: 'Renewal queue paused', queue: queue.name });
+
+    return { operator: operatorCode, paused: true };
+  }
+
+  async resumeQueue(operatorCode: string) {
+    const queue = this.getQueue(operatorCode);
+    await queue.resume();
+    this.logger.info({ msg: 'Renewal queue resumed', queue: queue.name });
+
+    return { operator: operatorCode, paused: false };
+  }
+
+  async listJobs(
+    operatorCode: string,
+    state: AdminJobState,
+    start: number,
+    size: number,
+  ) {
+    const queue = this.getQueue(operatorCode);
+    const end = start + Math.min(size, MAX_PAGE_SIZE) - 1;
+    const jobs = await queue.getJobs([state], start, end, true);
+
+    return {
+      operator: operatorCode,
+      state,
+      total: await queue.getJobCountByTypes(state),
+      jobs: jobs.map((job) => this.toJobSummary(job)),
+    };
+  }
+
+  async retryJob(operatorCode: string, jobId: string) {
+    const job = await this.getJob(operatorCode, jobId);
+    if (!(await job.isFailed())) {
+      throw new BadRequestException(`Job ${jobId} has not failed`);
+    }
+
+    await job.retry();
+    this.logger.info({ msg: 'Failed renewal job retried', jobId });
+
+    return { id: jobId, retried: true };
+  }
+
+  async removeJob(operatorCode: string, jobId: string) {
+    const job = await this.getJob(operatorCode, jobId);
+    if (await job.isActive()) {
+      throw new ConflictException(`Job ${jobId} is being processed`);
+    }
+
+    await job.remove();
+    this.logger.warn({ msg: 'Renewal job removed', jobId });
+
+    return { id: jobId, removed: true };
+  }
+
+  async getFallbackStats() {
+    return this.eventPublisher.getFallbackStorageCount();
+  }
+
+  async listFallbackMessages(
+    state: FallbackState,
+    cursor: string,
+    size: number,
+  ) {
+    return this.eventPublisher.getFallbackMessages(
+      state,
+      cursor,
+      Math.min(size, MAX_PAGE_SIZE),
+    );
+  }
+
+  async getFallbackMessage(messageId: string) {
+    const found = await this.eventPublisher.getFallbackMessage(messageId);
+    if (!found) {
+      throw new NotFoundException(`Fallback message ${messageId} not found`);
+    }
+    return found;
+  }
+
+  /**
+   * Publishes a pending or archived fallback message to RabbitMQ now.
+   */
+  async replayFallbackMessage(messageId: string) {
+    await this.getFallbackMessage(messageId);
+
+    const result = await this.eventPublisher.retryFailedMessage(messageId);
+    if (!result.success) {
+      throw new ServiceUnavailableException(result.message);
+    }
+
+    return { id: messageId, replayed: true };
+  }
+
+  private getQueue(operatorCode: string): Queue<RenewalJobData> {
+    const queue = this.renewalService.getQueue(operatorCode);
+    if (!queue) {
+      throw new NotFoundException(`Unknown operator ${operatorCode}`);
+    }
+    return queue;
+  }
+
+  private async getJob(
+    operatorCode: string,
+    jobId: string,
+  ): Promise<Job<RenewalJobData>> {
+    const job = await this.getQueue(operatorCode).getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private toJobSummary(job: Job<RenewalJobData>) {
+    return {
+      id: job.id,
+      name: job.name,
+      attempt: job.data.attempt ?? 1,
+      createdAt: new Date(job.timestamp).toISOString(),
+      runAt: new Date(job.timestamp + job.delay).toISOString(),
+      failedReason: job.failedReason ?? null,
+      finishedAt: job.finishedOn
+        ? new Date(job.finishedOn).toISOString()
+        : null,
+      data: job.data,
+    };
+  }
+}
@@ -1,5 +1,4 @@
 import { Controller, Get } from '@nestjs/common';
-import { AppService } from './app.service';
 import {
   EventPublisherService,
   NotificationPayload,
@@ -7,15 +6,7 @@ import {
 
 @Controller()
 export class AppController {
-  constructor(
-    private readonly appService: AppService,
-    private readonly eventPublisher: EventPublisherService,
-  ) {}
-
-  @Get('health')
-  getHealth() {
-    return this.appService.getHealth();
-  }
+  constructor(private readonly eventPublisher: EventPublisherService) {}
 
   @Get('event')
   async testEvent() {
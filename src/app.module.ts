@@ -2,23 +2,56 @@ import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AppController } from './app.controller';
-import { AppService } from './app.service';
 import { LoggerModule } from './common/logger/logger.module';
 import { RedisModule } from './common/redis/redis.module';
+import { AdminModule } from './admin/admin.module';
+import { MetricsModule } from './common/metrics/metrics.module';
+import adminConfig from './config/admin.config';
 import appConfig from './config/app.config';
+import billingConfig from './config/billing.config';
+import circuitBreakerConfig from './config/circuit-breaker.config';
 import dbConfig from './config/db.config';
+import dunningConfig from './config/dunning.config';
+import healthConfig from './config/health.config';
+import merchantWebhookConfig from './config/merchant-webhook.config';
+import notificationOutboxConfig from './config/notification-outbox.config';
+import operatorCallbackConfig from './config/operator-callback.config';
+import rateLimitConfig from './config/rate-limit.config';
 import redisConfig from './config/redis.config';
+import resultConsumerConfig from './config/result-consumer.config';
+import retryConfig from './config/retry.config';
 import rmqConfig from './config/rmq.config';
+import smsConfig from './config/sms.config';
 import { PrismaModule } from './database/prisma.module';
 import { EventPublisherModule } from './event-publisher/event-publisher.module';
+import { HealthModule } from './health/health.module';
+import { OperatorCallbackModule } from './operator-callback/operator-callback.module';
 import { RenewalModule } from './renewal/renewal.module';
+import { SmsModule } from './sms/sms.module';
 
 @Module({
   imports: [
     // Configurations
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, dbConfig, redisConfig, rmqConfig],
+      load: [
+        appConfig,
+        dbConfig,
+        redisConfig,
+        rmqConfig,
+        retryConfig,
+        billingConfig,
+        dunningConfig,
+        smsConfig,
+        merchantWebhookConfig,
+        operatorCallbackConfig,
+        resultConsumerConfig,
+        adminConfig,
+        rateLimitConfig,
+        circuitBreakerConfig,
+        healthConfig,
+        notificationOutboxConfig,
+      ],
     }),
 
     // Logger
@@ -27,6 +60,9 @@ import { RenewalModule } from './renewal/renewal.module';
     // Cache
     RedisModule,
 
+    // Metrics
+    MetricsModule,
+
     // Prisma
     PrismaModule.forRoot({
       isGlobal: true,
@@ -51,8 +87,17 @@ import { RenewalModule } from './renewal/renewal.module';
 
     // Renewal Module
     RenewalModule,
+
+    // SMS
+    SmsModule,
+
+    // Operator callbacks
+    OperatorCallbackModule,
+    AdminModule,
+
+    // Health checks
+    HealthModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
 })
 export class AppModule {}
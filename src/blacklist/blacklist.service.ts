@@ -0,0 +1,146 @@
+import { Injectable } from '@nestjs/common';
+import { PinoLogger } from 'nestjs-pino';
+import { RedisService } from 'src/common/redis/redis.service';
+import { BlacklistRepository } from 'src/database/blacklist.repository';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+
+export const BLACKLIST_CACHE_KEY = 'blacklist:active_entries';
+const BLACKLIST_CACHE_TTL_SECONDS = 300;
+// Present once the hash is loaded, so an empty blacklist is cached too.
+const LOADED_FIELD = '__loaded';
+
+/**
+ * `blacklist.list_type` values screened before charging.
+ */
+export const BLACKLIST_TYPE = {
+  MSISDN: 'MSISDN',
+  MERCHANT: 'MERCHANT',
+  PRODUCT: 'PRODUCT',
+} as const;
+
+export type BlacklistType =
+  (typeof BLACKLIST_TYPE)[keyof typeof BLACKLIST_TYPE];
+
+interface CachedBlacklistEntry {
+  value: string;
+  reason: string | null;
+  expiresAt: string | null;
+}
+
+export interface BlacklistHit {
+  listType: BlacklistType;
+  value: string;
+  reason: string | null;
+}
+
+/**
+ * Active entries are cached in a Redis hash keyed by `TYPE:value`, so a
+ * screening is a single HMGET of the subscriber's candidates.
+ */
+@Injectable()
+export class BlacklistService {
+  constructor(
+    private readonly blacklistRepo: BlacklistRepository,
+    private readonly redis: RedisService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(BlacklistService.name);
+  }
+
+  /**
+   * Checks the subscriber MSISDN, merchant code and product ID against the
+   * active blacklist. Returns the first matching entry, or null.
+   */
+  async screen(
+    data: Pick<RenewableSubscriptionPayload, 'msisdn' | 'merchants'> & {
+      product_id: number;
+    },
+  ): Promise<BlacklistHit | null> {
+    const candidates: [BlacklistType, string][] = [
+      [BLACKLIST_TYPE.MSISDN, data.msisdn],
+      [BLACKLIST_TYPE.MERCHANT, data.merchants.merchant_code],
+      [BLACKLIST_TYPE.PRODUCT, String(data.product_id)],
+    ];
+    const fields = candidates.map(([type, value]) => toField(type, value));
+
+    let cached = await this.readCache(fields);
+    if (!cached) {
+      await this.loadCache();
+      cached = (await this.readCache(fields)) ?? [];
+    }
+
+    const now = Date.now();
+    for (const [index, raw] of cached.entries()) {
+      if (!raw) continue;
+
+      const entry = JSON.parse(raw) as CachedBlacklistEntry;
+      // Entries may expire while the cached snapshot is still live.
+      if (entry.expiresAt && new Date(entry.expiresAt).getTime() <= now) {
+        continue;
+      }
+
+      return {
+        listType: candidates[index][0],
+        value: entry.value,
+        reason: entry.reason,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Drops the cached snapshot so the next screening reloads from the database.
+   * Call after adding, removing or deactivating blacklist entries; exposed
+   * as `POST /admin/blacklist/refresh` for changes made in the database.
+   */
+  async invalidate(): Promise<void> {
+    await this.redis.del(BLACKLIST_CACHE_KEY);
+    this.logger.info('Blacklist cache invalidated.');
+  }
+
+  /** Cached values for `fields`, or null when the cache is not loaded. */
+  private async readCache(fields: string[]): Promise<(string | null)[] | null> {
+    const [loaded, ...values] = await this.redis.hmget(
+      BLACKLIST_CACHE_KEY,
+      LOADED_FIELD,
+      ...fields,
+    );
+    return loaded ? values : null;
+  }
+
+  private async loadCache(): Promise<void> {
+    const rows = await this.blacklistRepo.findActiveEntries();
+    const entries: Record<string, string> = { [LOADED_FIELD]: '1' };
+
+    for (const row of rows) {
+      const field = toField(row.list_type, row.value);
+      const entry: CachedBlacklistEntry = {
+        value: row.value,
+        reason: row.reason,
+        expiresAt: row.expires_at?.toISOString() ?? null,
+      };
+      entries[field] ??= JSON.stringify(entry);
+    }
+
+    await this.redis.replaceHash(
+      BLACKLIST_CACHE_KEY,
+      entries,
+      BLACKLIST_CACHE_TTL_SECONDS,
+    );
+  }
+}
+
+/** Cache field for an entry, with the value normalized for its type. */
+function toField(listType: string, value: string): string {
+  const type = listType.toUpperCase();
+  const normalized =
+    type === BLACKLIST_TYPE.MSISDN ? normalizeMsisdn(value) : value.trim();
+
+  return `${type}:${normalized}`;
+}
+
+/** Compares numbers by digits only, so `+8801...` matches `8801...`. */
+function normalizeMsisdn(msisdn: string): string {
+  return msisdn.replace(/\D/g, '');
+}
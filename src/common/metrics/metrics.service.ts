@@ -0,0 +1,163 @@
+import { Injectable } from '@nestjs/common';
+import { PinoLogger } from 'nestjs-pino';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+type MetricsCollector = () => Promise<void>;
+
+/**
+ * Prometheus metrics for the renewal pipeline. Counters and histograms are
+ * updated where things happen; gauges that read external state (queue
+ * depths, Redis list lengths) are refreshed by collectors on every scrape.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+  private readonly collectors: MetricsCollector[] = [];
+
+  readonly jobsDispatched = new Counter({
+    name: 'renewal_jobs_dispatched_total',
+    help: 'Renewal jobs queued by the dispatcher',
+    labelNames: ['operator'] as const,
+    registers: [this.registry],
+  });
+
+  readonly dispatchSkipped = new Counter({
+    name: 'renewal_dispatch_skipped_total',
+    help: 'Renewals skipped before charging',
+    labelNames: ['reason'] as const,
+    registers: [this.registry],
+  });
+
+  readonly chargeAttempts = new Counter({
+    name: 'renewal_charge_attempts_total',
+    help: 'Charge calls sent to operator gateways',
+    labelNames: ['operator'] as const,
+    registers: [this.registry],
+  });
+
+  readonly chargeResults = new Counter({
+    name: 'renewal_charge_results_total',
+    help: 'Charge outcomes by result and error category',
+    labelNames: ['operator', 'result', 'error_category'] as const,
+    registers: [this.registry],
+  });
+
+  readonly gatewayLatency = new Histogram({
+    name: 'operator_gateway_latency_seconds',
+    help: 'Latency of operator charge calls',
+    labelNames: ['operator'] as const,
+    buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  readonly rateLimitWaits = new Histogram({
+    name: 'operator_rate_limit_wait_seconds',
+    help: 'Time charge calls waited for an operator rate limit token',
+    labelNames: ['operator', 'deferred'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5],
+    registers: [this.registry],
+  });
+
+  readonly circuitState = new Gauge({
+    name: 'operator_circuit_state',
+    help: 'Circuit breaker state per operator (0 closed, 1 half-open, 2 open)',
+    labelNames: ['operator'] as const,
+    registers: [this.registry],
+  });
+
+  readonly circuitTransitions = new Counter({
+    name: 'operator_circuit_transitions_total',
+    help: 'Circuit breaker state changes per operator',
+    labelNames: ['operator', 'from', 'to'] as const,
+    registers: [this.registry],
+  });
+
+  readonly queueJobs = new Gauge({
+    name: 'renewal_queue_jobs',
+    help: 'Jobs in each operator renewal queue by state',
+    labelNames: ['operator', 'state'] as const,
+    registers: [this.registry],
+  });
+
+  readonly resultBacklog = new Gauge({
+    name: 'renewal_result_backlog',
+    help: 'Charge results in the renewal_status_report lists',
+    labelNames: ['list'] as const,
+    registers: [this.registry],
+  });
+
+  readonly resultBatchDuration = new Histogram({
+    name: 'renewal_result_batch_duration_seconds',
+    help: 'Time the result consumer takes to process one batch',
+    labelNames: ['outcome'] as const,
+    buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  readonly notificationFallbacks = new Counter({
+    name: 'notification_fallback_stored_total',
+    help: 'Notifications stored in the fallback store because RabbitMQ was unavailable',
+    registers: [this.registry],
+  });
+
+  readonly notificationFallbacksArchived = new Counter({
+    name: 'notification_fallback_archived_total',
+    help: 'Fallback notifications archived after exhausting their retries',
+    registers: [this.registry],
+  });
+
+  readonly notificationFallbackMessages = new Gauge({
+    name: 'notification_fallback_messages',
+    help: 'Notifications in the fallback store by state, as of the last count',
+    labelNames: ['state'] as const,
+    registers: [this.registry],
+  });
+
+  readonly notificationOutboxRelayed = new Counter({
+    name: 'notification_outbox_relayed_total',
+    help: 'Outbox notifications published to RabbitMQ, by outcome',
+    labelNames: ['result'] as const,
+    registers: [this.registry],
+  });
+
+  readonly notificationOutboxPending = new Gauge({
+    name: 'notification_outbox_pending',
+    help: 'Outbox notifications waiting to be published',
+    registers: [this.registry],
+  });
+
+  constructor(private readonly logger: PinoLogger) {
+    this.logger.setContext(MetricsService.name);
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Registers a callback that refreshes gauges before each scrape.
+   */
+  addCollector(collector: MetricsCollector) {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    const results = await Promise.allSettled(
+      this.collectors.map((collector) => collector()),
+    );
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          { error: String(result.reason) },
+          'Metrics collector failed; serving stale values.',
+        );
+      }
+    }
+
+    return this.registry.metrics();
+  }
+}
@@ -1,4 +1,5 @@
 import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { Redis } from 'ioredis';
 import { PinoLogger } from 'nestjs-pino';
 import { REDIS_CLIENT } from './redis.constants';
@@ -39,6 +40,13 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Round-trips a PING to check the connection.
+   */
+  async ping(): Promise<string> {
+    return this.redis.ping();
+  }
+
   // ============================================
   // CACHING METHODS (Strongly Typed)
   // ============================================
@@ -104,20 +112,61 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Retrieves and deserializes several JSON values in one round trip.
+   * Missing or unparseable values come back as null.
+   */
+  async getMany<T>(keys: string[]): Promise<(T | null)[]> {
+    if (!keys.length) return [];
+
+    const values = await this.redis.mget(...keys);
+    return values.map((value, index) => {
+      if (!value) return null;
+      try {
+        return JSON.parse(value) as T;
+      } catch (error) {
+        this.logger.error(
+          { error: String(error), key: keys[index] },
+          'Failed to parse value from Redis.',
+        );
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Returns one SCAN page of keys matching a pattern. Iteration is complete
+   * once the returned cursor is '0'; a key may be returned more than once.
+   */
+  async scanKeys(
+    pattern: string,
+    cursor: string = '0',
+    count: number = 100,
+  ): Promise<{ cursor: string; keys: string[] }> {
+    const [next, keys] = await this.redis.scan(
+      cursor,
+      'MATCH',
+      pattern,
+      'COUNT',
+      count,
+    );
+    return { cursor: next, keys };
+  }
+
   // ============================================
   // DISTRIBUTED LOCKING (Atomic)
   // ============================================
 
   /**
    * Tries to acquire a lock using SET NX EX.
+   * Returns the lock token on success, which must be passed to `releaseLock`.
    */
   async acquireLock(
     lockKey: string,
     ttl: number = 30,
     retries: number = 3,
-  ): Promise<boolean> {
-    // Production note: Using a UUID for the token is better practice.
-    const token = Math.random().toString(36).substring(7);
+  ): Promise<string | null> {
+    const token = randomUUID();
 
     for (let i = 0; i < retries; i++) {
       try {
@@ -126,29 +175,85 @@ export class RedisService implements OnModuleDestroy {
 
         if (result === 'OK') {
           this.logger.debug({ lockKey, token }, 'Acquired lock successfully.');
-          return true;
+          return token;
         }
 
         // Wait with exponential backoff
         await new Promise((resolve) => setTimeout(resolve, 100 * (i + 1)));
       } catch (error) {
         this.logger.error({ error, lockKey }, 'Error acquiring lock.');
-        return false;
+        return null;
       }
     }
 
-    return false;
+    return null;
   }
 
   /**
-   * Releases a lock (simple DEL for this example, Lua script recommended for token check).
+   * Releases a lock only if it is still held with the given token, so a
+   * holder whose lock expired cannot delete the next holder's lock.
    */
-  async releaseLock(lockKey: string): Promise<void> {
+  async releaseLock(lockKey: string, token: string): Promise<boolean> {
+    const script = `
+      if redis.call('GET', KEYS[1]) == ARGV[1] then
+        return redis.call('DEL', KEYS[1])
+      end
+      return 0
+    `;
+
     try {
-      await this.redis.del(lockKey);
-      this.logger.debug({ lockKey }, 'Released lock.');
+      const released = (await this.redis.eval(
+        script,
+        1,
+        lockKey,
+        token,
+      )) as number;
+
+      if (released === 1) {
+        this.logger.debug({ lockKey }, 'Released lock.');
+      } else {
+        this.logger.warn(
+          { lockKey },
+          'Lock expired or is held by another owner.',
+        );
+      }
+      return released === 1;
     } catch (error) {
       this.logger.error({ error, lockKey }, 'Error releasing lock.');
+      return false;
+    }
+  }
+
+  /**
+   * Extends a lock's TTL if it is still held with the given token.
+   */
+  async extendLock(
+    lockKey: string,
+    token: string,
+    ttl: number,
+  ): Promise<boolean> {
+    const script = `
+      if redis.call('GET', KEYS[1]) == ARGV[1] then
+        return redis.call('EXPIRE', KEYS[1], ARGV[2])
+      end
+      return 0
+    `;
+
+    try {
+      const extended = (await this.redis.eval(
+        script,
+        1,
+        lockKey,
+        token,
+        ttl,
+      )) as number;
+      return extended === 1;
+    } catch (error) {
+      this.logger.error(
+        { error: String(error), lockKey },
+        'Error extending lock.',
+      );
+      return false;
     }
   }
 
@@ -214,6 +319,49 @@ export class RedisService implements OnModuleDestroy {
     };
   }
 
+  /**
+   * Takes one token from a token bucket refilled at `ratePerSecond`, holding
+   * at most `capacity` tokens. Uses the Redis clock so every replica shares
+   * the same bucket. Returns 0 when a token was taken, otherwise how many
+   * milliseconds until one is available.
+   */
+  async takeToken(
+    key: string,
+    ratePerSecond: number,
+    capacity: number = ratePerSecond,
+  ): Promise<number> {
+    const script = `
+      local rate = tonumber(ARGV[1])
+      local capacity = tonumber(ARGV[2])
+      local time = redis.call('TIME')
+      local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+      local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+      local tokens = tonumber(bucket[1]) or capacity
+      local ts = tonumber(bucket[2]) or now
+      tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate / 1000)
+
+      local wait = 0
+      if tokens >= 1 then
+        tokens = tokens - 1
+      else
+        wait = math.ceil((1 - tokens) * 1000 / rate)
+      end
+
+      redis.call('HSET', KEYS[1], 'tokens', tokens, 'ts', now)
+      redis.call('PEXPIRE', KEYS[1], math.ceil(capacity * 1000 / rate) + 1000)
+      return wait
+    `;
+
+    return (await this.redis.eval(
+      script,
+      1,
+      key,
+      ratePerSecond,
+      capacity,
+    )) as number;
+  }
+
   // ============================================
   // IDEMPOTENCY
   // ============================================
@@ -275,6 +423,200 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  // ============================================
+  // RELIABLE LIST QUEUE (claim / ack)
+  // ============================================
+
+  /**
+   * Atomically moves up to `count` items from the head of `sourceKey` to the
+   * tail of `processingKey`, recording the claim time of each in `claimsKey`.
+   * Items stay in the processing list until acknowledged or requeued.
+   */
+  async claimListItems(
+    sourceKey: string,
+    processingKey: string,
+    claimsKey: string,
+    count: number,
+  ): Promise<string[]> {
+    const script = `
+      local claimed = {}
+      for i = 1, tonumber(ARGV[1]) do
+        local item = redis.call('LMOVE', KEYS[1], KEYS[2], 'LEFT', 'RIGHT')
+        if not item then break end
+        redis.call('ZADD', KEYS[3], ARGV[2], item)
+        claimed[#claimed + 1] = item
+      end
+      return claimed
+    `;
+
+    return (await this.redis.eval(
+      script,
+      3,
+      sourceKey,
+      processingKey,
+      claimsKey,
+      count,
+      Date.now(),
+    )) as string[];
+  }
+
+  /**
+   * Removes claimed items from the processing list once they are handled.
+   */
+  async ackListItems(
+    processingKey: string,
+    claimsKey: string,
+    items: string[],
+  ): Promise<void> {
+    if (!items.length) return;
+
+    const multi = this.redis.multi();
+    for (const item of items) {
+      multi.lrem(processingKey, 1, item);
+    }
+    multi.zrem(claimsKey, ...items);
+    await multi.exec();
+  }
+
+  /**
+   * Returns claimed items to `targetKey` (the source list for a retry, or a
+   * dead-letter list) in a single transaction.
+   */
+  async moveClaimedListItems(
+    processingKey: string,
+    claimsKey: string,
+    targetKey: string,
+    items: string[],
+    targetValues: string[] = items,
+  ): Promise<void> {
+    if (!items.length) return;
+
+    const multi = this.redis.multi();
+    for (const item of items) {
+      multi.lrem(processingKey, 1, item);
+    }
+    multi.zrem(claimsKey, ...items);
+    multi.rpush(targetKey, ...targetValues);
+    await multi.exec();
+  }
+
+  /**
+   * Claimed items whose claim is older than `olderThanMs`.
+   */
+  async findStaleClaims(
+    claimsKey: string,
+    olderThanMs: number,
+  ): Promise<string[]> {
+    return this.redis.zrangebyscore(claimsKey, 0, Date.now() - olderThanMs);
+  }
+
+  /**
+   * Increments a numeric hash field, returning the new value.
+   */
+  async hincrby(key: string, field: string, increment = 1): Promise<number> {
+    return this.redis.hincrby(key, field, increment);
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<void> {
+    if (!fields.length) return;
+    await this.redis.hdel(key, ...fields);
+  }
+
+  async hmget(key: string, ...fields: string[]): Promise<(string | null)[]> {
+    if (!fields.length) return [];
+    return this.redis.hmget(key, ...fields);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.redis.hgetall(key);
+  }
+
+  /**
+   * Writes `entries` into a hash only while `field` still holds `expected`
+   * (or is missing, when `matchMissing` is set). Returns whether it wrote,
+   * so concurrent callers can tell which of them made the change.
+   */
+  async compareAndSetHash(
+    key: string,
+    field: string,
+    expected: string,
+    entries: Record<string, string>,
+    matchMissing = false,
+  ): Promise<boolean> {
+    const script = `
+      local current = redis.call('HGET', KEYS[1], ARGV[1])
+      if current == ARGV[2] or (not current and ARGV[3] == '1') then
+        for i = 4, #ARGV, 2 do
+          redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 1])
+        end
+        return 1
+      end
+      return 0
+    `;
+
+    const written = (await this.redis.eval(
+      script,
+      1,
+      key,
+      field,
+      expected,
+      matchMissing ? '1' : '0',
+      ...Object.entries(entries).flat(),
+    )) as number;
+    return written === 1;
+  }
+
+  /**
+   * Counts the events in a sliding window kept as a sorted set, after
+   * dropping those older than `windowMs` and optionally adding one at `now`.
+   */
+  async countWindowEvents(
+    key: string,
+    windowMs: number,
+    add: boolean,
+    now: number = Date.now(),
+  ): Promise<number> {
+    const multi = this.redis.multi();
+    multi.zremrangebyscore(key, 0, now - windowMs);
+    if (add) {
+      multi.zadd(key, now, `${now}-${randomUUID()}`);
+      multi.pexpire(key, windowMs);
+    }
+    multi.zcard(key);
+
+    const results = await multi.exec();
+    const [err, count] = results?.[results.length - 1] ?? [];
+    if (err || typeof count !== 'number') {
+      throw new Error(`Failed to count window events for ${key}`);
+    }
+    return count;
+  }
+
+  /**
+   * Replaces a hash atomically, so readers never see it half built.
+   * @param ttl Time-to-live in seconds.
+   */
+  async replaceHash(
+    key: string,
+    entries: Record<string, string>,
+    ttl: number,
+  ): Promise<void> {
+    const multi = this.redis.multi();
+    multi.del(key);
+    if (Object.keys(entries).length) {
+      multi.hset(key, entries);
+      multi.expire(key, ttl);
+    }
+    await multi.exec();
+  }
+
+  /**
+   * Returns the number of items in a list.
+   */
+  async llen(key: string): Promise<number> {
+    return this.redis.llen(key);
+  }
+
   /**
    * Returns all keys matching a pattern.
    * In production, prefer SCAN over KEYS for performance on large datasets.
@@ -0,0 +1,104 @@
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Returns the wall-clock date/time parts of an instant in the given IANA zone.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in milliseconds.
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in the given zone to the matching UTC instant.
+ * Out-of-range parts (e.g. day 32) roll over like `Date.UTC` does.
+ */
+export function zonedTimeToUtc(
+  parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'> &
+    Partial<Pick<ZonedDateParts, 'hour' | 'minute' | 'second'>>,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+  );
+
+  // Re-evaluate once so instants near an offset change resolve correctly.
+  let offset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  offset = getTimeZoneOffsetMs(new Date(wallClock - offset), timeZone);
+
+  return new Date(wallClock - offset);
+}
+
+/**
+ * First instant of the local calendar day containing `date`.
+ */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year, month, day }, timeZone);
+}
+
+/**
+ * Parses an `HH:mm` string into minutes after midnight.
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
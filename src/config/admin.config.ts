@@ -0,0 +1,8 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('admin', () => {
+  return {
+    apiKey: validatedEnv.ADMIN_API_KEY,
+  };
+});
@@ -7,5 +7,6 @@ export default registerAs('app', () => {
     port: validatedEnv.PORT,
     corsOrigin: validatedEnv.CORS_ORIGIN,
     serviceName: validatedEnv.SERVICE_NAME,
+    trustProxyHops: validatedEnv.TRUST_PROXY_HOPS,
   };
 });
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('billing', () => {
+  return {
+    timezone: validatedEnv.BILLING_TIMEZONE,
+    renewalLookbackDays: validatedEnv.RENEWAL_LOOKBACK_DAYS,
+  };
+});
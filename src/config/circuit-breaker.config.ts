@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('circuitBreaker', () => {
+  return {
+    errorThresholdPercent: validatedEnv.CIRCUIT_BREAKER_ERROR_THRESHOLD_PERCENT,
+    minRequests: validatedEnv.CIRCUIT_BREAKER_MIN_REQUESTS,
+    windowSeconds: validatedEnv.CIRCUIT_BREAKER_WINDOW_SECONDS,
+    openSeconds: validatedEnv.CIRCUIT_BREAKER_OPEN_SECONDS,
+  };
+});
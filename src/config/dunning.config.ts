@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('dunning', () => {
+  return {
+    graceDays: validatedEnv.DUNNING_GRACE_DAYS,
+    suspensionDays: validatedEnv.DUNNING_SUSPENSION_DAYS,
+    terminalStatus: validatedEnv.DUNNING_TERMINAL_STATUS,
+  };
+});
@@ -1,4 +1,27 @@
 import { z } from 'zod';
+import { retryPolicyOverrideSchema } from './retry-policy.schema';
+
+const isJson = (raw: string) => {
+  try {
+    JSON.parse(raw);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A JSON object of string keys to `value`, parsed once at startup. Invalid
+ * JSON or entries of the wrong shape fail validation.
+ */
+const jsonRecord = <T extends z.ZodType>(value: T) =>
+  z
+    .string()
+    .optional()
+    .default('{}')
+    .refine(isJson, { message: 'must be valid JSON' })
+    .transform((raw): unknown => JSON.parse(raw))
+    .pipe(z.record(z.string(), value));
 
 export const envSchema = z.object({
   // app
@@ -6,6 +29,9 @@ export const envSchema = z.object({
   PORT: z.coerce.number().int().positive(),
   CORS_ORIGIN: z.string().optional().default('*'),
   SERVICE_NAME: z.string().default('billing-service'),
+  // Reverse proxies in front of the service; req.ip is read past this many
+  // X-Forwarded-For hops. Keep 0 when clients connect directly.
+  TRUST_PROXY_HOPS: z.coerce.number().int().nonnegative().default(0),
 
   // Database
   DATABASE_URL: z
@@ -37,6 +63,139 @@ export const envSchema = z.object({
   RMQ_USER: z.string().min(1),
   RMQ_PASS: z.string().min(1),
 
+  // Renewal retry policy
+  RETRY_TIMEZONE: z.string().optional().default('Asia/Dhaka'),
+  // JSON map of operator code -> partial policy, e.g. {"GP":{"maxAttemptsPerDay":3}}
+  RETRY_POLICY_OVERRIDES: jsonRecord(retryPolicyOverrideSchema),
+
+  // Operator charge rate limits (shared by all replicas)
+  // JSON map of operator code -> { tps }, e.g. {"GP":{"tps":40}}
+  OPERATOR_RATE_LIMITS: jsonRecord(z.object({ tps: z.number().positive() })),
+  // Longest a worker waits for a token before handing the job back to the queue
+  OPERATOR_RATE_LIMIT_MAX_WAIT_MS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(2000),
+
+  // Billing calendar
+  BILLING_TIMEZONE: z.string().optional().default('Asia/Dhaka'),
+  // How many past days of missed renewals a dispatch run picks up.
+  RENEWAL_LOOKBACK_DAYS: z.coerce.number().int().nonnegative().default(3),
+
+  // Dunning (failed renewal lifecycle)
+  DUNNING_GRACE_DAYS: z.coerce.number().int().nonnegative().default(3),
+  DUNNING_SUSPENSION_DAYS: z.coerce.number().int().nonnegative().default(30),
+  DUNNING_TERMINAL_STATUS: z.enum(['EXPIRED', 'CANCELLED']).default('EXPIRED'),
+
+  // SMS
+  SMS_PRE_RENEWAL_ALERTS_ENABLED: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  SMS_PRE_RENEWAL_LEAD_HOURS: z.coerce.number().int().positive().default(24),
+  SMS_PROVIDER_NAME: z.string().optional().default('HTTP'),
+  SMS_PROVIDER_URL: z.string().optional().default(''),
+  SMS_PROVIDER_API_KEY: z.string().optional().default(''),
+  SMS_SENDER_ID: z.string().optional().default(''),
+  SMS_PROVIDER_TIMEOUT: z.coerce.number().int().positive().default(5000),
+  SMS_MAX_RETRIES: z.coerce.number().int().nonnegative().default(3),
+  SMS_RETRY_BACKOFF_MINUTES: z.coerce.number().int().positive().default(15),
+
+  // Merchant webhooks
+  // JSON map of merchant_code -> HMAC secret, e.g. {"M001":"s3cret"}
+  MERCHANT_WEBHOOK_SECRETS: jsonRecord(z.string()),
+  MERCHANT_WEBHOOK_TIMEOUT: z.coerce.number().int().positive().default(5000),
+  MERCHANT_WEBHOOK_MAX_RETRIES: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(5),
+  MERCHANT_WEBHOOK_BACKOFF_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60),
+
+  // Renewal result queue
+  RESULT_CONSUMER_BATCH_SIZE: z.coerce.number().int().positive().default(250),
+  RESULT_CONSUMER_INTERVAL_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10000),
+  RESULT_QUEUE_VISIBILITY_TIMEOUT_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(300),
+  RESULT_QUEUE_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+
+  // Notification outbox relay
+  NOTIFICATION_OUTBOX_BATCH_SIZE: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(500),
+  NOTIFICATION_OUTBOX_MAX_ATTEMPTS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10),
+  NOTIFICATION_OUTBOX_BACKOFF_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(30),
+  // Sent rows are purged after this many days
+  NOTIFICATION_OUTBOX_RETENTION_DAYS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(7),
+
+  // Operator circuit breaker
+  // Opens when at least this share of calls in the window are gateway failures
+  CIRCUIT_BREAKER_ERROR_THRESHOLD_PERCENT: z.coerce
+    .number()
+    .min(1)
+    .max(100)
+    .default(50),
+  CIRCUIT_BREAKER_MIN_REQUESTS: z.coerce.number().int().positive().default(20),
+  CIRCUIT_BREAKER_WINDOW_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60),
+  CIRCUIT_BREAKER_OPEN_SECONDS: z.coerce.number().int().positive().default(60),
+
+  // Health checks
+  HEALTH_CHECK_TIMEOUT_MS: z.coerce.number().int().positive().default(2000),
+  // Readiness fails once the result lists grow past these sizes
+  HEALTH_RESULT_BACKLOG_THRESHOLD: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(50000),
+  HEALTH_RESULT_DEAD_LETTER_THRESHOLD: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(1000),
+
+  // Admin API
+  // Sent as the x-admin-api-key header; the admin API is disabled when empty.
+  ADMIN_API_KEY: z.string().optional().default(''),
+
+  // Operator callbacks
+  // JSON map of operator code -> { token, allowedIps? }, e.g. {"GP":{"token":"abc"}}
+  OPERATOR_CALLBACK_AUTH: jsonRecord(
+    z.object({
+      token: z.string().min(1),
+      allowedIps: z.array(z.string()).optional(),
+    }),
+  ),
+
   // log
   LOG_LEVEL: z
     .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
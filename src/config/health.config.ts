@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('health', () => {
+  return {
+    checkTimeoutMs: validatedEnv.HEALTH_CHECK_TIMEOUT_MS,
+    resultBacklogThreshold: validatedEnv.HEALTH_RESULT_BACKLOG_THRESHOLD,
+    resultDeadLetterThreshold: validatedEnv.HEALTH_RESULT_DEAD_LETTER_THRESHOLD,
+  };
+});
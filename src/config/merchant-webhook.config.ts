@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('merchantWebhook', () => {
+  return {
+    secrets: validatedEnv.MERCHANT_WEBHOOK_SECRETS,
+    timeout: validatedEnv.MERCHANT_WEBHOOK_TIMEOUT,
+    maxRetries: validatedEnv.MERCHANT_WEBHOOK_MAX_RETRIES,
+    backoffSeconds: validatedEnv.MERCHANT_WEBHOOK_BACKOFF_SECONDS,
+  };
+});
@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('notificationOutbox', () => {
+  return {
+    batchSize: validatedEnv.NOTIFICATION_OUTBOX_BATCH_SIZE,
+    maxAttempts: validatedEnv.NOTIFICATION_OUTBOX_MAX_ATTEMPTS,
+    backoffSeconds: validatedEnv.NOTIFICATION_OUTBOX_BACKOFF_SECONDS,
+    retentionDays: validatedEnv.NOTIFICATION_OUTBOX_RETENTION_DAYS,
+  };
+});
@@ -0,0 +1,18 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export interface OperatorCallbackAuth {
+  /** Shared token expected in the `x-callback-token` header. */
+  token: string;
+  /** Source IPs the operator calls from, checked in addition to the token. */
+  allowedIps?: string[];
+}
+
+export default registerAs('operatorCallback', () => {
+  return {
+    auth: validatedEnv.OPERATOR_CALLBACK_AUTH satisfies Record<
+      string,
+      OperatorCallbackAuth
+    >,
+  };
+});
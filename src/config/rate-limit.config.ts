@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export interface OperatorRateLimit {
+  /** Charge calls per second across all replicas. */
+  tps: number;
+}
+
+export default registerAs('rateLimit', () => {
+  return {
+    maxWaitMs: validatedEnv.OPERATOR_RATE_LIMIT_MAX_WAIT_MS,
+    // Operators without an entry are not throttled.
+    operators: {
+      GP: { tps: 50 },
+      ROBI: { tps: 30 },
+      ROBI_MIFE: { tps: 30 },
+      ...validatedEnv.OPERATOR_RATE_LIMITS,
+    } as Record<string, OperatorRateLimit>,
+  };
+});
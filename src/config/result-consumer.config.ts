@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('resultConsumer', () => {
+  return {
+    batchSize: validatedEnv.RESULT_CONSUMER_BATCH_SIZE,
+    intervalMs: validatedEnv.RESULT_CONSUMER_INTERVAL_MS,
+    visibilityTimeoutSeconds:
+      validatedEnv.RESULT_QUEUE_VISIBILITY_TIMEOUT_SECONDS,
+    maxAttempts: validatedEnv.RESULT_QUEUE_MAX_ATTEMPTS,
+  };
+});
@@ -0,0 +1,35 @@
+import { CHARGE_ERROR_CATEGORY } from 'src/payment/constants/charge-error-category.constants';
+import { z } from 'zod';
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'must be HH:mm' });
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A partial retry policy, as given per operator in `RETRY_POLICY_OVERRIDES`
+ * or per plan in `charging_configurations.config.retryPolicy`.
+ */
+export const retryPolicyOverrideSchema = z
+  .object({
+    maxAttemptsPerDay: z.number().int().positive(),
+    backoffMinutes: z.array(z.number().nonnegative()),
+    quietHours: z.object({ start: timeOfDay, end: timeOfDay }),
+    cutoffTime: timeOfDay,
+    timezone: z.string().refine(isTimeZone, {
+      message: 'must be an IANA timezone',
+    }),
+    skipRetryOn: z.array(z.enum(CHARGE_ERROR_CATEGORY)),
+  })
+  .partial()
+  .strict();
+
+export type RetryPolicyOverride = z.infer<typeof retryPolicyOverrideSchema>;
@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('retry', () => {
+  return {
+    defaultPolicy: {
+      maxAttemptsPerDay: 1,
+      backoffMinutes: [480],
+      cutoffTime: '23:59',
+      timezone: validatedEnv.RETRY_TIMEZONE,
+      skipRetryOn: ['PERMANENT_REJECT', 'CONSENT_INVALID'],
+    },
+    operators: {
+      // GP: one same-day retry 8 hours after the first failure
+      GP: { maxAttemptsPerDay: 2, backoffMinutes: [480] },
+      ...validatedEnv.RETRY_POLICY_OVERRIDES,
+    },
+  };
+});
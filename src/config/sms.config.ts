@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+import { validatedEnv } from './validate-env';
+
+export default registerAs('sms', () => {
+  return {
+    preRenewalAlerts: {
+      enabled: validatedEnv.SMS_PRE_RENEWAL_ALERTS_ENABLED,
+      leadHours: validatedEnv.SMS_PRE_RENEWAL_LEAD_HOURS,
+    },
+    provider: {
+      name: validatedEnv.SMS_PROVIDER_NAME,
+      url: validatedEnv.SMS_PROVIDER_URL,
+      apiKey: validatedEnv.SMS_PROVIDER_API_KEY,
+      senderId: validatedEnv.SMS_SENDER_ID,
+      timeout: validatedEnv.SMS_PROVIDER_TIMEOUT,
+    },
+    maxRetries: validatedEnv.SMS_MAX_RETRIES,
+    retryBackoffMinutes: validatedEnv.SMS_RETRY_BACKOFF_MINUTES,
+  };
+});
@@ -37,10 +37,11 @@ export class BillingEventRepository extends BaseRepository<
    */
   async createMany(
     data: Prisma.billing_eventsCreateManyInput[],
+    tx?: Prisma.TransactionClient,
   ): Promise<void> {
     if (!data.length) return;
     try {
-      await this.getDelegate().createMany({ data });
+      await this.getDelegate(tx).createMany({ data });
       this.logger.debug(
         { model: this.modelName, count: data.length },
         'Bulk createMany operation completed.',
@@ -53,4 +54,101 @@ export class BillingEventRepository extends BaseRepository<
       throw error;
     }
   }
+
+  /**
+   * Subscription charged with the given payment reference, if any.
+   */
+  async findSubscriptionIdByPaymentReference(
+    paymentReferenceId: string,
+  ): Promise<string | null> {
+    const event = await this.getDelegate().findFirst({
+      where: { payment_reference_id: paymentReferenceId },
+      select: { subscription_id: true },
+    });
+
+    return event?.subscription_id ?? null;
+  }
+
+  /**
+   * Which of the given charge results already have a billing event, i.e.
+   * were applied by an earlier run of the result consumer.
+   */
+  async findRecordedResultIds(
+    resultIds: string[],
+    tx?: Prisma.TransactionClient,
+  ): Promise<Set<string>> {
+    if (!resultIds.length) return new Set();
+
+    const events = await this.getDelegate(tx).findMany({
+      where: { result_id: { in: resultIds } },
+      select: { result_id: true },
+    });
+
+    return new Set(events.map((event) => event.result_id!));
+  }
+
+  /**
+   * Latest renewal attempt for a subscription, preferring the one made with
+   * `paymentReferenceId` when given.
+   */
+  async findLatestRenewalAttempt(
+    subscriptionId: string,
+    paymentReferenceId?: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<billing_events | null> {
+    const client = this.getDelegate(tx);
+    const byReference = paymentReferenceId
+      ? await client.findFirst({
+          where: {
+            subscription_id: subscriptionId,
+            payment_reference_id: paymentReferenceId,
+          },
+        })
+      : null;
+
+    return (
+      byReference ??
+      client.findFirst({
+        where: {
+          subscription_id: subscriptionId,
+          event_type: 'RENEWAL',
+          status: { not: 'SKIPPED' },
+        },
+        orderBy: { created_at: 'desc' },
+      })
+    );
+  }
+
+  /**
+   * Latest successful renewal charge for the billing cycle due on
+   * `cycleDate`. Events recorded before they carried a cycle date are
+   * matched by being created at or after `dueAt`.
+   */
+  async findSuccessfulRenewalForCycle(
+    subscriptionId: string,
+    cycleDate: Date,
+    dueAt: Date,
+  ): Promise<Pick<
+    billing_events,
+    'payment_reference_id' | 'amount' | 'currency' | 'created_at'
+  > | null> {
+    return this.getDelegate().findFirst({
+      where: {
+        subscription_id: subscriptionId,
+        event_type: 'RENEWAL',
+        status: 'SUCCESS',
+        OR: [
+          { cycle_date: cycleDate },
+          { cycle_date: null, created_at: { gte: dueAt } },
+        ],
+      },
+      select: {
+        payment_reference_id: true,
+        amount: true,
+        currency: true,
+        created_at: true,
+      },
+      orderBy: { created_at: 'desc' },
+    });
+  }
 }
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { blacklist, Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+@Injectable()
+export class BlacklistRepository extends BaseRepository<
+  blacklist,
+  Prisma.blacklistDelegate,
+  Prisma.blacklistCreateInput,
+  Prisma.blacklistUpdateInput,
+  Prisma.blacklistWhereInput,
+  Prisma.blacklistWhereUniqueInput
+> {
+  protected readonly modelName = 'blacklist';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.blacklistDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.blacklist;
+  }
+
+  /**
+   * Returns every active entry that has not expired as of `now`.
+   */
+  async findActiveEntries(
+    now: Date = new Date(),
+  ): Promise<
+    Pick<blacklist, 'list_type' | 'value' | 'reason' | 'expires_at'>[]
+  > {
+    return this.getDelegate().findMany({
+      where: {
+        is_active: true,
+        OR: [{ expires_at: null }, { expires_at: { gt: now } }],
+      },
+      select: {
+        list_type: true,
+        value: true,
+        reason: true,
+        expires_at: true,
+      },
+    });
+  }
+}
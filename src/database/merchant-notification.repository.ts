@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { merchant_notifications, Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+export type MerchantNotificationWithMerchant = merchant_notifications & {
+  merchants: { merchant_code: string };
+};
+
+@Injectable()
+export class MerchantNotificationRepository extends BaseRepository<
+  merchant_notifications,
+  Prisma.merchant_notificationsDelegate,
+  Prisma.merchant_notificationsCreateInput,
+  Prisma.merchant_notificationsUpdateInput,
+  Prisma.merchant_notificationsWhereInput,
+  Prisma.merchant_notificationsWhereUniqueInput
+> {
+  protected readonly modelName = 'merchant_notifications';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.merchant_notificationsDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.merchant_notifications;
+  }
+
+  /**
+   * Bulk inserts notifications, optionally inside an existing transaction.
+   */
+  async createMany(
+    data: Prisma.merchant_notificationsCreateManyInput[],
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    if (!data.length) return;
+    await this.getDelegate(tx).createMany({ data });
+  }
+
+  /**
+   * Notifications in one of `statuses` whose (next) delivery is due.
+   */
+  async findDue(
+    statuses: string[],
+    now: Date,
+    take: number,
+  ): Promise<MerchantNotificationWithMerchant[]> {
+    return this.getDelegate().findMany({
+      where: {
+        delivery_status: { in: statuses },
+        OR: [{ next_retry_at: null }, { next_retry_at: { lte: now } }],
+      },
+      include: { merchants: { select: { merchant_code: true } } },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { notification_outbox, Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+@Injectable()
+export class NotificationOutboxRepository extends BaseRepository<
+  notification_outbox,
+  Prisma.notification_outboxDelegate,
+  Prisma.notification_outboxCreateInput,
+  Prisma.notification_outboxUpdateInput,
+  Prisma.notification_outboxWhereInput,
+  Prisma.notification_outboxWhereUniqueInput
+> {
+  protected readonly modelName = 'notification_outbox';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.notification_outboxDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.notification_outbox;
+  }
+
+  /**
+   * Bulk inserts outbox rows, normally inside the transaction that produced
+   * the events.
+   */
+  async createMany(
+    data: Prisma.notification_outboxCreateManyInput[],
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    if (!data.length) return;
+    await this.getDelegate(tx).createMany({ data });
+  }
+
+  /**
+   * Rows with `status` whose next attempt is due, oldest first.
+   */
+  async findDue(
+    status: string,
+    now: Date,
+    take: number,
+  ): Promise<notification_outbox[]> {
+    return this.getDelegate().findMany({
+      where: { status, next_attempt_at: { lte: now } },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+
+  async updateMany(
+    ids: bigint[],
+    data: Prisma.notification_outboxUpdateManyMutationInput,
+  ): Promise<void> {
+    if (!ids.length) return;
+    await this.getDelegate().updateMany({ where: { id: { in: ids } }, data });
+  }
+
+  /**
+   * Removes rows in `status` last updated before `before`.
+   */
+  async deleteBefore(status: string, before: Date): Promise<number> {
+    const { count } = await this.getDelegate().deleteMany({
+      where: { status, updated_at: { lt: before } },
+    });
+    return count;
+  }
+}
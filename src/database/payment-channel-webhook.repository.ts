@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { payment_channel_webhooks, Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+@Injectable()
+export class PaymentChannelWebhookRepository extends BaseRepository<
+  payment_channel_webhooks,
+  Prisma.payment_channel_webhooksDelegate,
+  Prisma.payment_channel_webhooksCreateInput,
+  Prisma.payment_channel_webhooksUpdateInput,
+  Prisma.payment_channel_webhooksWhereInput,
+  Prisma.payment_channel_webhooksWhereUniqueInput
+> {
+  protected readonly modelName = 'payment_channel_webhooks';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.payment_channel_webhooksDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.payment_channel_webhooks;
+  }
+
+  /**
+   * Oldest callbacks still waiting for reconciliation.
+   */
+  async findByStatus(
+    status: string,
+    take: number,
+  ): Promise<payment_channel_webhooks[]> {
+    return this.getDelegate().findMany({
+      where: { processing_status: status },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { payment_channels, Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+@Injectable()
+export class PaymentChannelRepository extends BaseRepository<
+  payment_channels,
+  Prisma.payment_channelsDelegate,
+  Prisma.payment_channelsCreateInput,
+  Prisma.payment_channelsUpdateInput,
+  Prisma.payment_channelsWhereInput,
+  Prisma.payment_channelsWhereUniqueInput
+> {
+  protected readonly modelName = 'payment_channels';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.payment_channelsDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.payment_channels;
+  }
+
+  /**
+   * Every channel with the timezone of the country it operates in.
+   */
+  async findAllWithTimezone(): Promise<
+    { id: number; code: string; countries: { timezone: string | null } }[]
+  > {
+    return this.getDelegate().findMany({
+      select: {
+        id: true,
+        code: true,
+        countries: { select: { timezone: true } },
+      },
+    });
+  }
+}
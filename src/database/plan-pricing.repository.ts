@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { plan_pricing, Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+@Injectable()
+export class PlanPricingRepository extends BaseRepository<
+  plan_pricing,
+  Prisma.plan_pricingDelegate,
+  Prisma.plan_pricingCreateInput,
+  Prisma.plan_pricingUpdateInput,
+  Prisma.plan_pricingWhereInput,
+  Prisma.plan_pricingWhereUniqueInput
+> {
+  protected readonly modelName = 'plan_pricing';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.plan_pricingDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.plan_pricing;
+  }
+
+  /**
+   * Returns the active price row in effect on `chargeDate` for the plan.
+   * Channel-specific rows win over channel-agnostic ones; among those, the
+   * most recently effective row is used.
+   */
+  async findEffectivePricing(
+    planId: number,
+    paymentChannelId: number,
+    chargeDate: Date,
+  ): Promise<plan_pricing | null> {
+    return this.getDelegate().findFirst({
+      where: {
+        plan_id: planId,
+        is_active: true,
+        effective_from: { lte: chargeDate },
+        AND: [
+          {
+            OR: [{ effective_to: null }, { effective_to: { gte: chargeDate } }],
+          },
+          {
+            OR: [
+              { payment_channel_id: paymentChannelId },
+              { payment_channel_id: null },
+            ],
+          },
+        ],
+      },
+      orderBy: [
+        { payment_channel_id: { sort: 'asc', nulls: 'last' } },
+        { effective_from: 'desc' },
+      ],
+    });
+  }
+}
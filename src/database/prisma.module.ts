@@ -1,8 +1,17 @@
 import { DynamicModule, Global, Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { BillingEventRepository } from './billing-event.repository';
+import { BlacklistRepository } from './blacklist.repository';
+import { MerchantNotificationRepository } from './merchant-notification.repository';
+import { NotificationOutboxRepository } from './notification-outbox.repository';
+import { PaymentChannelWebhookRepository } from './payment-channel-webhook.repository';
+import { PaymentChannelRepository } from './payment-channel.repository';
+import { PlanPricingRepository } from './plan-pricing.repository';
 import { PrismaBatchService } from './prisma-batch.service';
 import { PrismaService } from './prisma.service';
+import { SmsLogRepository } from './sms-log.repository';
+import { SmsTemplateRepository } from './sms-template.repository';
+import { SubscriptionStatusChangeRepository } from './subscription-status-change.repository';
 import { SubscriptionRepository } from './subscription.repository';
 import { TransactionService } from './transaction.service';
 export interface PrismaModuleOptions {
@@ -30,6 +39,15 @@ export class PrismaModule {
         // Repositories
         SubscriptionRepository,
         BillingEventRepository,
+        SubscriptionStatusChangeRepository,
+        PlanPricingRepository,
+        BlacklistRepository,
+        SmsTemplateRepository,
+        SmsLogRepository,
+        MerchantNotificationRepository,
+        PaymentChannelWebhookRepository,
+        PaymentChannelRepository,
+        NotificationOutboxRepository,
       ],
       exports: [
         PrismaService,
@@ -39,6 +57,15 @@ export class PrismaModule {
         // Repositories
         SubscriptionRepository,
         BillingEventRepository,
+        SubscriptionStatusChangeRepository,
+        PlanPricingRepository,
+        BlacklistRepository,
+        SmsTemplateRepository,
+        SmsLogRepository,
+        MerchantNotificationRepository,
+        PaymentChannelWebhookRepository,
+        PaymentChannelRepository,
+        NotificationOutboxRepository,
       ],
     };
   }
@@ -54,6 +81,15 @@ export class PrismaModule {
         // Repositories
         SubscriptionRepository,
         BillingEventRepository,
+        SubscriptionStatusChangeRepository,
+        PlanPricingRepository,
+        BlacklistRepository,
+        SmsTemplateRepository,
+        SmsLogRepository,
+        MerchantNotificationRepository,
+        PaymentChannelWebhookRepository,
+        PaymentChannelRepository,
+        NotificationOutboxRepository,
       ],
       exports: [
         PrismaService,
@@ -62,6 +98,15 @@ export class PrismaModule {
         // Repositories
         SubscriptionRepository,
         BillingEventRepository,
+        SubscriptionStatusChangeRepository,
+        PlanPricingRepository,
+        BlacklistRepository,
+        SmsTemplateRepository,
+        SmsLogRepository,
+        MerchantNotificationRepository,
+        PaymentChannelWebhookRepository,
+        PaymentChannelRepository,
+        NotificationOutboxRepository,
       ],
     };
   }
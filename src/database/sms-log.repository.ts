@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, sms_logs } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+@Injectable()
+export class SmsLogRepository extends BaseRepository<
+  sms_logs,
+  Prisma.sms_logsDelegate,
+  Prisma.sms_logsCreateInput,
+  Prisma.sms_logsUpdateInput,
+  Prisma.sms_logsWhereInput,
+  Prisma.sms_logsWhereUniqueInput
+> {
+  protected readonly modelName = 'sms_logs';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.sms_logsDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.sms_logs;
+  }
+
+  /**
+   * Logs whose next retry is due, oldest first.
+   */
+  async findDueRetries(
+    status: string,
+    now: Date,
+    take: number,
+  ): Promise<sms_logs[]> {
+    return this.getDelegate().findMany({
+      where: {
+        delivery_status: status,
+        next_retry_at: { lte: now },
+      },
+      orderBy: { next_retry_at: 'asc' },
+      take,
+    });
+  }
+
+  /**
+   * Subscriptions among `subscriptionIds` that already have an SMS of the
+   * given event type logged since `since`.
+   */
+  async findNotifiedSubscriptionIds(
+    eventType: string,
+    subscriptionIds: string[],
+    since: Date,
+  ): Promise<Set<string>> {
+    if (!subscriptionIds.length) return new Set();
+
+    const rows = await this.getDelegate().findMany({
+      where: {
+        event_type: eventType,
+        related_subscription_id: { in: subscriptionIds },
+        created_at: { gte: since },
+      },
+      select: { related_subscription_id: true },
+      distinct: ['related_subscription_id'],
+    });
+
+    return new Set(
+      rows
+        .map((row) => row.related_subscription_id)
+        .filter((id): id is string => id !== null),
+    );
+  }
+}
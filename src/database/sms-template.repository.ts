@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, sms_templates } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+@Injectable()
+export class SmsTemplateRepository extends BaseRepository<
+  sms_templates,
+  Prisma.sms_templatesDelegate,
+  Prisma.sms_templatesCreateInput,
+  Prisma.sms_templatesUpdateInput,
+  Prisma.sms_templatesWhereInput,
+  Prisma.sms_templatesWhereUniqueInput
+> {
+  protected readonly modelName = 'sms_templates';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.sms_templatesDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.sms_templates;
+  }
+
+  /**
+   * Returns the highest version of the template for an event and operator.
+   */
+  async findLatest(
+    eventType: string,
+    operator: string,
+  ): Promise<sms_templates | null> {
+    return this.getDelegate().findFirst({
+      where: { event_type: eventType, operator },
+      orderBy: { version: 'desc' },
+    });
+  }
+}
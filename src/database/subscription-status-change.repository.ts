@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, subscription_status_changes } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { BaseRepository } from './base.repository';
+import { PrismaService } from './prisma.service';
+
+export type SubscriptionStatusChangeCreateManyInput =
+  Prisma.subscription_status_changesCreateManyInput;
+
+@Injectable()
+export class SubscriptionStatusChangeRepository extends BaseRepository<
+  subscription_status_changes,
+  Prisma.subscription_status_changesDelegate,
+  Prisma.subscription_status_changesCreateInput,
+  Prisma.subscription_status_changesUpdateInput,
+  Prisma.subscription_status_changesWhereInput,
+  Prisma.subscription_status_changesWhereUniqueInput
+> {
+  protected readonly modelName = 'subscription_status_changes';
+
+  constructor(prisma: PrismaService, logger: PinoLogger) {
+    super(prisma, logger);
+  }
+
+  protected getDelegate(
+    client?: PrismaService | Prisma.TransactionClient,
+  ): Prisma.subscription_status_changesDelegate {
+    const prismaClient =
+      client instanceof PrismaService
+        ? client.client
+        : (client ?? this.prisma.client);
+    return prismaClient.subscription_status_changes;
+  }
+
+  /**
+   * Bulk inserts audit rows, optionally inside an existing transaction.
+   */
+  async createMany(
+    data: SubscriptionStatusChangeCreateManyInput[],
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    if (!data.length) return;
+    try {
+      await this.getDelegate(tx).createMany({ data });
+      this.logger.debug(
+        { model: this.modelName, count: data.length },
+        'Bulk createMany operation completed.',
+      );
+    } catch (error) {
+      this.logger.error(
+        { model: this.modelName, error: String(error) },
+        'Bulk createMany operation failed.',
+      );
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { Injectable } from '@nestjs/common';
-import { Prisma, subscriptions } from '@prisma/client';
+import { Prisma, subscription_status, subscriptions } from '@prisma/client';
 import { PinoLogger } from 'nestjs-pino';
 import { BaseRepository } from './base.repository';
 import { PrismaService } from './prisma.service';
@@ -15,12 +15,34 @@ export type RenewableSubscriptionPayload = Prisma.subscriptionsGetPayload<{
   };
 }>;
 
+/** Statuses a subscription can be renewed from. */
+export const RENEWABLE_STATUSES: subscription_status[] = [
+  'ACTIVE',
+  'SUSPENDED_PAYMENT_FAILED',
+];
+
+/**
+ * Due-date range `[from, to)` to renew for one payment channel.
+ */
+export interface RenewalWindow {
+  paymentChannelId: number;
+  from: Date;
+  to: Date;
+}
+
 export interface SubscriptionBulkUpdate {
   subscriptionId: string;
   success: boolean;
-  nextBillingAt: Date;
+  status: subscription_status;
+  nextBillingAt: Date | null;
+  gracePeriodEndsAt: Date | null;
 }
 
+export type LockedSubscriptionState = Pick<
+  subscriptions,
+  'status' | 'grace_period_ends_at'
+>;
+
 @Injectable()
 export class SubscriptionRepository extends BaseRepository<
   subscriptions,
@@ -51,25 +73,28 @@ export class SubscriptionRepository extends BaseRepository<
     return prismaClient.subscriptions;
   }
 
+  /**
+   * Auto-renewing subscriptions due within their payment channel's window.
+   */
   async findRenewableSubscriptions(
+    windows: RenewalWindow[],
     take: number = 10000,
     cursor?: bigint,
   ): Promise<RenewableSubscriptionPayload[]> {
-    const todayStart = new Date();
-    todayStart.setUTCHours(0, 0, 0, 0);
-
-    const todayEnd = new Date();
-    todayEnd.setUTCHours(23, 59, 59, 999);
+    if (!windows.length) return [];
 
     const whereClause: Prisma.subscriptionsWhereInput = {
       auto_renew: true,
       status: {
-        in: ['ACTIVE', 'SUSPENDED_PAYMENT_FAILED'],
-      },
-      next_billing_at: {
-        gte: todayStart,
-        lte: todayEnd,
+        in: RENEWABLE_STATUSES,
       },
+      OR: windows.map(({ paymentChannelId, from, to }) => ({
+        payment_channel_id: paymentChannelId,
+        next_billing_at: {
+          gte: from,
+          lt: to,
+        },
+      })),
       ...(cursor && {
         id: {
           gt: cursor,
@@ -94,11 +119,153 @@ export class SubscriptionRepository extends BaseRepository<
     });
   }
 
+  /**
+   * Active auto-renewing subscriptions whose next billing falls in
+   * `(from, to]`, paged by id.
+   */
+  async findSubscriptionsDueBetween(
+    from: Date,
+    to: Date,
+    take: number,
+    cursor?: bigint,
+  ): Promise<RenewableSubscriptionPayload[]> {
+    return this.getDelegate(this.prisma).findMany({
+      where: {
+        auto_renew: true,
+        status: 'ACTIVE',
+        next_billing_at: { gt: from, lte: to },
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      orderBy: { id: 'asc' },
+      take,
+      include: {
+        payment_channels: true,
+        charging_configurations: true,
+        product_plans: true,
+        plan_pricing: true,
+        products: true,
+        merchants: true,
+      },
+    });
+  }
+
+  /**
+   * Most recent subscription on the channel matching any of the operator
+   * identifiers carried by a callback.
+   */
+  async findIdByChannelIdentifiers(
+    paymentChannelCode: string,
+    identifiers: {
+      consentId?: string;
+      paymentChannelReferenceId?: string;
+      msisdn?: string;
+    },
+  ): Promise<string | null> {
+    const or: Prisma.subscriptionsWhereInput[] = [];
+    if (identifiers.consentId) {
+      or.push({ consent_id: identifiers.consentId });
+    }
+    if (identifiers.paymentChannelReferenceId) {
+      or.push({
+        payment_channel_reference_id: identifiers.paymentChannelReferenceId,
+      });
+    }
+    if (identifiers.msisdn) {
+      or.push({ msisdn: identifiers.msisdn });
+    }
+    if (!or.length) return null;
+
+    const subscription = await this.getDelegate(this.prisma).findFirst({
+      where: { payment_channels: { code: paymentChannelCode }, OR: or },
+      orderBy: { id: 'desc' },
+      select: { subscription_id: true },
+    });
+
+    return subscription?.subscription_id ?? null;
+  }
+
+  /**
+   * Loads a single subscription with everything a renewal job needs.
+   */
+  async findRenewableById(
+    subscriptionId: string,
+  ): Promise<RenewableSubscriptionPayload | null> {
+    return this.getDelegate(this.prisma).findUnique({
+      where: { subscription_id: subscriptionId },
+      include: {
+        payment_channels: true,
+        charging_configurations: true,
+        product_plans: true,
+        plan_pricing: true,
+        products: true,
+        merchants: true,
+      },
+    });
+  }
+
+  /**
+   * Current renewal-relevant state of a subscription, as opposed to the
+   * snapshot carried by a queued job.
+   */
+  async findRenewalState(
+    subscriptionId: string,
+  ): Promise<Pick<
+    subscriptions,
+    'status' | 'auto_renew' | 'next_billing_at'
+  > | null> {
+    return this.getDelegate(this.prisma).findUnique({
+      where: { subscription_id: subscriptionId },
+      select: { status: true, auto_renew: true, next_billing_at: true },
+    });
+  }
+
+  /**
+   * Loads a subscription with its plan for callback reconciliation.
+   */
+  async findWithPlan(
+    subscriptionId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<Prisma.subscriptionsGetPayload<{
+    include: { product_plans: true };
+  }> | null> {
+    return this.getDelegate(tx).findUnique({
+      where: { subscription_id: subscriptionId },
+      include: { product_plans: true },
+    });
+  }
+
+  /**
+   * Reads the current status and grace window of the given subscriptions,
+   * locking the rows until the surrounding transaction completes.
+   */
+  async findStatusesForUpdate(
+    subscriptionIds: string[],
+    tx: Prisma.TransactionClient,
+  ): Promise<Map<string, LockedSubscriptionState>> {
+    if (!subscriptionIds.length) return new Map();
+
+    const rows = await tx.$queryRaw<
+      ({ subscription_id: string } & LockedSubscriptionState)[]
+    >`
+    SELECT subscription_id, status, grace_period_ends_at
+    FROM subscriptions
+    WHERE subscription_id IN (${Prisma.join(subscriptionIds)})
+    FOR UPDATE
+  `;
+
+    return new Map(
+      rows.map(({ subscription_id, ...state }) => [subscription_id, state]),
+    );
+  }
+
   /**
    * Performs an efficient bulk update using a single raw SQL statement.
-   * Updates status, billing timestamps, and next billing date in one query.
+   * Updates status, billing timestamps, grace window and next billing date in one query.
    */
-  async bulkUpdateStatus(updates: SubscriptionBulkUpdate[]): Promise<void> {
+  async bulkUpdateStatus(
+    updates: SubscriptionBulkUpdate[],
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
     if (!updates.length) return;
 
     const now = new Date();
@@ -107,7 +274,7 @@ export class SubscriptionRepository extends BaseRepository<
     ${Prisma.join(
       updates.map(
         (u) =>
-          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.success ? 'ACTIVE' : 'SUSPENDED_PAYMENT_FAILED'}`,
+          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.status}::subscription_status`,
       ),
       ' ',
     )}
@@ -117,7 +284,7 @@ export class SubscriptionRepository extends BaseRepository<
     ${Prisma.join(
       updates.map(
         (u) =>
-          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.success ? now : null}`,
+          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.success ? now : null}::timestamptz`,
       ),
       ' ',
     )}
@@ -127,7 +294,7 @@ export class SubscriptionRepository extends BaseRepository<
     ${Prisma.join(
       updates.map(
         (u) =>
-          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.success ? null : now}`,
+          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.success ? null : now}::timestamptz`,
       ),
       ' ',
     )}
@@ -136,7 +303,18 @@ export class SubscriptionRepository extends BaseRepository<
     const nextBillingCases = Prisma.sql`CASE subscription_id
     ${Prisma.join(
       updates.map(
-        (u) => Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.nextBillingAt}`,
+        (u) =>
+          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.nextBillingAt}::timestamptz`,
+      ),
+      ' ',
+    )}
+  END`;
+
+    const gracePeriodCases = Prisma.sql`CASE subscription_id
+    ${Prisma.join(
+      updates.map(
+        (u) =>
+          Prisma.sql`WHEN ${u.subscriptionId} THEN ${u.gracePeriodEndsAt}::timestamptz`,
       ),
       ' ',
     )}
@@ -150,12 +328,17 @@ export class SubscriptionRepository extends BaseRepository<
       status = ${statusCases},
       last_payment_succeed_at = ${succeedAtCases},
       last_payment_failed_at = ${failedAtCases},
-      next_billing_at = ${nextBillingCases}
+      next_billing_at = ${nextBillingCases},
+      grace_period_ends_at = ${gracePeriodCases}
     WHERE subscription_id IN (${Prisma.join(subscriptionIds)});
   `;
 
     try {
-      await this.executeRaw(query);
+      if (tx) {
+        await tx.$executeRaw(query);
+      } else {
+        await this.executeRaw(query);
+      }
       this.logger.debug(
         { model: this.modelName, count: updates.length },
         'Bulk subscription update completed.',
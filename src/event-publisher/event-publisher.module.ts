@@ -1,10 +1,18 @@
 import { Module } from '@nestjs/common';
 import { RabbitMQModule } from 'src/common/rabbitmq/rabbitmq.module';
 import { EventPublisherService } from './event-publisher.service';
+import { NotificationFallbackStore } from './notification-fallback.store';
+import { NotificationOutboxScheduler } from './notification-outbox.scheduler';
+import { NotificationOutboxService } from './notification-outbox.service';
 
 @Module({
   imports: [RabbitMQModule],
-  providers: [EventPublisherService],
-  exports: [EventPublisherService],
+  providers: [
+    EventPublisherService,
+    NotificationFallbackStore,
+    NotificationOutboxService,
+    NotificationOutboxScheduler,
+  ],
+  exports: [EventPublisherService, NotificationOutboxService],
 })
 export class EventPublisherModule {}
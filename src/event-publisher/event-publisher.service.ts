@@ -1,8 +1,13 @@
 import { Injectable } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PinoLogger } from 'nestjs-pino';
+import { MetricsService } from 'src/common/metrics/metrics.service';
 import { RabbitMQProducerService } from 'src/common/rabbitmq/rabbitmq.service';
 import { RedisService } from 'src/common/redis/redis.service';
+import {
+  FallbackState,
+  NotificationFallbackStore,
+} from './notification-fallback.store';
 
 export interface NotificationPayload {
   id: string;
@@ -28,20 +33,19 @@ export interface NotificationPayload {
   timestamp: number;
 }
 
-interface FallbackMessage extends NotificationPayload {
-  failedAt: number;
-  retryCount: number;
-}
+const FALLBACK_LOCK_KEY = 'lock:notification_fallback';
+const FALLBACK_LOCK_TTL_SECONDS = 300;
 
 @Injectable()
 export class EventPublisherService {
-  private fallbackStorage: Map<string, FallbackMessage> = new Map();
   private readonly maxFallbackRetries = 5;
 
   constructor(
     private readonly rabbitmqService: RabbitMQProducerService,
     private readonly logger: PinoLogger,
     private readonly redis: RedisService,
+    private readonly metrics: MetricsService,
+    private readonly fallbackStore: NotificationFallbackStore,
   ) {
     this.logger.setContext(EventPublisherService.name);
   }
@@ -61,11 +65,15 @@ export class EventPublisherService {
         this.logger.warn(
           `RabbitMQ is not connected. Storing message ${notification.id} in fallback storage.`,
         );
-        this.storeFallback(notification);
-        return {
-          success: false,
-          message: 'Message stored in fallback storage. Will retry later.',
-        };
+        return (await this.tryStoreFallback(notification))
+          ? {
+              success: false,
+              message: 'Message stored in fallback storage. Will retry later.',
+            }
+          : {
+              success: false,
+              message: 'RabbitMQ is not connected and fallback storage failed.',
+            };
       }
 
       await this.rabbitmqService.publishMessage(notification);
@@ -80,11 +88,15 @@ export class EventPublisherService {
         `Failed to send notification: ${notification.id}`,
         error,
       );
-      this.storeFallback(notification);
-      return {
-        success: false,
-        message: 'Failed to send notification. Stored in fallback storage.',
-      };
+      return (await this.tryStoreFallback(notification))
+        ? {
+            success: false,
+            message: 'Failed to send notification. Stored in fallback storage.',
+          }
+        : {
+            success: false,
+            message: 'Failed to send notification and to store it in fallback.',
+          };
     }
   }
 
@@ -104,7 +116,7 @@ export class EventPublisherService {
         this.logger.warn(
           'RabbitMQ not connected, storing all notifications in Redis fallback...',
         );
-        await Promise.all(messages.map((msg) => this.storeFallback(msg)));
+        await Promise.all(messages.map((msg) => this.tryStoreFallback(msg)));
         return;
       }
 
@@ -122,7 +134,7 @@ export class EventPublisherService {
                 { err, id: msg.id },
                 'Failed to send notification, storing in fallback...',
               );
-              await this.storeFallback(msg);
+              await this.tryStoreFallback(msg);
             }
           }),
         );
@@ -153,44 +165,59 @@ export class EventPublisherService {
   private async storeFallback(
     notification: NotificationPayload,
   ): Promise<void> {
-    const redisKey = `notification:fallback:${notification.id}`;
+    const existing = await this.fallbackStore.get('pending', notification.id);
 
-    // Get existing message from Redis (returns object directly)
-    const existingMessage = await this.redis.get<FallbackMessage>(redisKey);
-    const retryCount = existingMessage?.retryCount || 0;
-
-    const fallbackMessage: FallbackMessage = {
+    await this.fallbackStore.save({
       ...notification,
       failedAt: Date.now(),
-      retryCount,
-    };
-
-    // Store object directly (your helper handles serialization)
-    await this.redis.set(redisKey, fallbackMessage);
+      retryCount: existing?.retryCount ?? 0,
+    });
+    this.metrics.notificationFallbacks.inc();
 
     this.logger.info(
       `Notification stored in fallback (Redis): ${notification.id}`,
     );
   }
 
-  @Cron(CronExpression.EVERY_5_MINUTES)
-  async processFallbackStorage(): Promise<void> {
-    // Get all fallback keys from Redis
-    const keys = await this.redis.getKeys('notification:fallback:*');
-
-    if (keys.length === 0) {
-      return;
+  /**
+   * Stores the notification in fallback storage, logging instead of throwing
+   * when Redis is unavailable too. Returns whether the message was kept.
+   */
+  private async tryStoreFallback(
+    notification: NotificationPayload,
+  ): Promise<boolean> {
+    try {
+      await this.storeFallback(notification);
+      return true;
+    } catch (error) {
+      this.logger.error({
+        msg: 'Failed to store notification in fallback storage',
+        id: notification.id,
+        error: String(error),
+      });
+      return false;
     }
+  }
 
-    this.logger.info(
-      `Processing ${keys.length} fallback notifications from Redis`,
+  /**
+   * CRON Job: republishes pending fallback messages. Messages that reached
+   * `maxFallbackRetries` are archived for inspection and manual replay.
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async processFallbackStorage(): Promise<void> {
+    const lockToken = await this.redis.acquireLock(
+      FALLBACK_LOCK_KEY,
+      FALLBACK_LOCK_TTL_SECONDS,
+      1,
     );
+    if (!lockToken) return;
 
-    for (const key of keys) {
-      try {
-        const message = await this.redis.get<FallbackMessage>(key);
-        if (!message) continue;
+    try {
+      let sent = 0;
+      let failed = 0;
+      let archived = 0;
 
+      for await (const message of this.fallbackStore.scan('pending')) {
         if (!this.rabbitmqService.isConnected()) {
           this.logger.warn(
             'RabbitMQ still not connected. Skipping fallback processing.',
@@ -199,61 +226,86 @@ export class EventPublisherService {
         }
 
         if (message.retryCount >= this.maxFallbackRetries) {
+          await this.fallbackStore.archive(message, 'Max retries reached');
+          this.metrics.notificationFallbacksArchived.inc();
           this.logger.error(
-            `Max retries reached for message: ${message.id}. Moving to permanent failure storage.`,
+            `Max retries reached for message: ${message.id}. Moved to the fallback archive.`,
           );
-          // In production: move to permanent storage / alert ops
-          await this.redis.del(key);
+          archived++;
           continue;
         }
 
-        // Try to publish
-        await this.rabbitmqService.publishMessage(message);
-        await this.redis.del(key);
-        this.logger.info(`Fallback notification sent: ${message.id}`);
-      } catch (error) {
-        this.logger.error(
-          `Failed to send fallback notification for key: ${key}`,
-          error,
-        );
-
-        // Increment retry count and update Redis
-        const message = await this.redis.get<FallbackMessage>(key);
-        if (message) {
-          message.retryCount++;
-          await this.redis.set(key, message);
+        try {
+          await this.rabbitmqService.publishMessage(message);
+          await this.fallbackStore.remove('pending', message.id);
+          this.logger.info(`Fallback notification sent: ${message.id}`);
+          sent++;
+        } catch (error) {
+          this.logger.error(
+            { error: String(error), id: message.id },
+            'Failed to send fallback notification',
+          );
+          await this.fallbackStore.save({
+            ...message,
+            retryCount: message.retryCount + 1,
+            lastError: String(error),
+          });
+          failed++;
         }
       }
-    }
 
-    // Check remaining messages in fallback
-    const remainingKeys = await this.redis.getKeys('notification:fallback:*');
-    if (remainingKeys.length > 0) {
-      this.logger.warn(
-        `${remainingKeys.length} notifications remain in fallback storage`,
+      const counts = await this.getFallbackStorageCount();
+      if (sent || failed || archived || counts.pending) {
+        this.logger.info({
+          msg: 'Fallback notifications processed',
+          sent,
+          failed,
+          archived,
+          remaining: counts.pending,
+          archiveSize: counts.archived,
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        { error: String(error) },
+        'Fallback notification processing failed.',
       );
+    } finally {
+      await this.redis.releaseLock(FALLBACK_LOCK_KEY, lockToken);
     }
   }
 
-  getFallbackStorageCount(): number {
-    return this.fallbackStorage.size;
+  /** Number of pending and archived fallback messages. */
+  async getFallbackStorageCount(): Promise<Record<FallbackState, number>> {
+    const counts = await this.fallbackStore.count();
+    for (const [state, count] of Object.entries(counts)) {
+      this.metrics.notificationFallbackMessages.set({ state }, count);
+    }
+    return counts;
   }
 
-  getFallbackMessages(): FallbackMessage[] {
-    return Array.from(this.fallbackStorage.values());
+  async getFallbackMessages(
+    state: FallbackState,
+    cursor: string,
+    size: number,
+  ) {
+    return this.fallbackStore.list(state, cursor, size);
   }
 
-  clearFallbackStorage(): void {
-    this.fallbackStorage.clear();
-    this.logger.info('Fallback storage cleared');
+  async getFallbackMessage(messageId: string) {
+    return this.fallbackStore.find(messageId);
   }
 
+  /**
+   * Publishes a pending or archived fallback message right away, and drops
+   * it from the store once RabbitMQ accepted it.
+   */
   async retryFailedMessage(
     messageId: string,
   ): Promise<{ success: boolean; message: string }> {
-    const failedMessage = this.fallbackStorage.get(messageId);
+    const found = await this.fallbackStore.find(messageId);
 
-    if (!failedMessage) {
+    if (!found) {
       return {
         success: false,
         message: 'Message not found in fallback storage',
@@ -261,13 +313,22 @@ export class EventPublisherService {
     }
 
     try {
-      await this.rabbitmqService.publishMessage(failedMessage);
-      this.fallbackStorage.delete(messageId);
+      await this.rabbitmqService.publishMessage(found.message);
+      await this.fallbackStore.remove(found.state, messageId);
+      this.logger.info({
+        msg: 'Fallback notification replayed',
+        id: messageId,
+        state: found.state,
+      });
       return {
         success: true,
         message: 'Message retried successfully',
       };
     } catch (error) {
+      this.logger.error(
+        { error: String(error), id: messageId },
+        'Failed to replay fallback notification',
+      );
       return {
         success: false,
         message: 'Failed to retry message',
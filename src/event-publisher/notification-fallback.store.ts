@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from 'src/common/redis/redis.service';
+import { NotificationPayload } from './event-publisher.service';
+
+/** Where a fallback message lives. */
+export const FALLBACK_STATES = ['pending', 'archived'] as const;
+
+export type FallbackState = (typeof FALLBACK_STATES)[number];
+
+export interface FallbackMessage extends NotificationPayload {
+  failedAt: number;
+  retryCount: number;
+  lastError?: string;
+}
+
+export interface ArchivedFallbackMessage extends FallbackMessage {
+  archivedAt: number;
+  reason: string;
+}
+
+const KEY_PREFIX: Record<FallbackState, string> = {
+  pending: 'notification:fallback:',
+  archived: 'notification:fallback_archive:',
+};
+
+// Long enough for ops to inspect and replay after an incident.
+const ARCHIVE_TTL_SECONDS = 30 * 24 * 60 * 60;
+const SCAN_COUNT = 500;
+
+/**
+ * Redis-backed store for notifications that could not be published to
+ * RabbitMQ. Pending messages are retried by the publisher; messages that
+ * keep failing are archived rather than dropped, so they can be replayed.
+ */
+@Injectable()
+export class NotificationFallbackStore {
+  constructor(private readonly redis: RedisService) {}
+
+  async get(state: FallbackState, id: string) {
+    return this.redis.get<FallbackMessage | ArchivedFallbackMessage>(
+      this.getKey(state, id),
+    );
+  }
+
+  /** Looks a message up in the pending store, then in the archive. */
+  async find(id: string) {
+    for (const state of FALLBACK_STATES) {
+      const message = await this.get(state, id);
+      if (message) return { state, message };
+    }
+    return null;
+  }
+
+  async save(message: FallbackMessage): Promise<void> {
+    await this.redis.set(this.getKey('pending', message.id), message);
+  }
+
+  async remove(state: FallbackState, id: string): Promise<void> {
+    await this.redis.del(this.getKey(state, id));
+  }
+
+  /**
+   * Moves a message that will not be retried any more to the archive.
+   */
+  async archive(message: FallbackMessage, reason: string): Promise<void> {
+    const archived: ArchivedFallbackMessage = {
+      ...message,
+      archivedAt: Date.now(),
+      reason,
+    };
+
+    await this.redis.set(
+      this.getKey('archived', message.id),
+      archived,
+      ARCHIVE_TTL_SECONDS,
+    );
+    await this.remove('pending', message.id);
+  }
+
+  /**
+   * Iterates every message in a state with SCAN, a page at a time.
+   */
+  async *scan(state: FallbackState): AsyncGenerator<FallbackMessage> {
+    let cursor = '0';
+    const seen = new Set<string>();
+
+    do {
+      const page = await this.redis.scanKeys(
+        this.getPattern(state),
+        cursor,
+        SCAN_COUNT,
+      );
+      cursor = page.cursor;
+
+      const keys = page.keys.filter((key) => !seen.has(key));
+      keys.forEach((key) => seen.add(key));
+
+      for (const message of await this.redis.getMany<FallbackMessage>(keys)) {
+        if (message) yield message;
+      }
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Returns one page of messages. Pass the returned cursor to get the next
+   * page; a cursor of '0' means there are no more.
+   */
+  async list(state: FallbackState, cursor: string, size: number) {
+    const page = await this.redis.scanKeys(
+      this.getPattern(state),
+      cursor,
+      size,
+    );
+    const messages = await this.redis.getMany<
+      FallbackMessage | ArchivedFallbackMessage
+    >(page.keys);
+
+    return {
+      state,
+      cursor: page.cursor,
+      messages: messages.filter((message) => message !== null),
+    };
+  }
+
+  async count(): Promise<Record<FallbackState, number>> {
+    const counts = { pending: 0, archived: 0 };
+
+    for (const state of FALLBACK_STATES) {
+      let cursor = '0';
+      const keys = new Set<string>();
+
+      do {
+        const page = await this.redis.scanKeys(
+          this.getPattern(state),
+          cursor,
+          SCAN_COUNT,
+        );
+        cursor = page.cursor;
+        page.keys.forEach((key) => keys.add(key));
+      } while (cursor !== '0');
+
+      counts[state] = keys.size;
+    }
+
+    return counts;
+  }
+
+  private getKey(state: FallbackState, id: string): string {
+    return `${KEY_PREFIX[state]}${id}`;
+  }
+
+  private getPattern(state: FallbackState): string {
+    return `${KEY_PREFIX[state]}*`;
+  }
+}
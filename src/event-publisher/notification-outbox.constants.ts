@@ -0,0 +1,8 @@
+/**
+ * `notification_outbox.status` values.
+ */
+export const OUTBOX_STATUS = {
+  PENDING: 'pending', // Waiting to be published, next attempt at next_attempt_at
+  SENT: 'sent', // Confirmed by RabbitMQ
+  FAILED: 'failed', // Out of attempts
+} as const;
@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PinoLogger } from 'nestjs-pino';
+import { RedisService } from 'src/common/redis/redis.service';
+import { NotificationOutboxService } from './notification-outbox.service';
+
+const RELAY_LOCK_KEY = 'lock:notification_outbox_relay';
+const RELAY_LOCK_TTL_SECONDS = 120;
+
+@Injectable()
+export class NotificationOutboxScheduler {
+  constructor(
+    private readonly notificationOutbox: NotificationOutboxService,
+    private readonly redis: RedisService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(NotificationOutboxScheduler.name);
+  }
+
+  /**
+   * CRON Job: relays due outbox rows to RabbitMQ. Only one instance relays
+   * at a time so rows are not published twice concurrently.
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS, {
+    name: 'notification_outbox_relay',
+  })
+  async handleRelay() {
+    const lockToken = await this.redis.acquireLock(
+      RELAY_LOCK_KEY,
+      RELAY_LOCK_TTL_SECONDS,
+      1,
+    );
+    if (!lockToken) return;
+
+    try {
+      const attempted = await this.notificationOutbox.relayDue();
+      if (attempted) {
+        this.logger.info({ msg: 'Outbox notifications relayed', attempted });
+      }
+    } catch (error) {
+      this.logger.error(
+        { error: String(error) },
+        'Notification outbox relay run failed.',
+      );
+    } finally {
+      await this.redis.releaseLock(RELAY_LOCK_KEY, lockToken);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, {
+    name: 'notification_outbox_purge',
+  })
+  async handlePurge() {
+    try {
+      const purged = await this.notificationOutbox.purgeSent();
+      this.logger.info({ msg: 'Sent outbox notifications purged', purged });
+    } catch (error) {
+      this.logger.error(
+        { error: String(error) },
+        'Notification outbox purge failed.',
+      );
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { notification_outbox } from '@prisma/client';
+import { NotificationOutboxService } from './notification-outbox.service';
+
+const NOW = new Date('2026-10-19T04:00:00Z');
+
+const buildEntry = (id: number, attempts = 0) =>
+  ({
+    id: BigInt(id),
+    message_id: `message-${id}`,
+    attempts,
+    payload: { id: `message-${id}`, eventType: 'renew.success' },
+  }) as unknown as notification_outbox;
+
+describe('NotificationOutboxService', () => {
+  let outboxRepo: {
+    createMany: jest.Mock;
+    findDue: jest.Mock;
+    update: jest.Mock;
+    updateMany: jest.Mock;
+    deleteBefore: jest.Mock;
+  };
+  let rabbitmq: { isConnected: jest.Mock; publishMessage: jest.Mock };
+  let relayed: jest.Mock;
+  let service: NotificationOutboxService;
+
+  beforeEach(() => {
+    outboxRepo = {
+      createMany: jest.fn().mockResolvedValue(undefined),
+      findDue: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue(undefined),
+      updateMany: jest.fn().mockResolvedValue(undefined),
+      deleteBefore: jest.fn().mockResolvedValue(3),
+    };
+    rabbitmq = {
+      isConnected: jest.fn().mockReturnValue(true),
+      publishMessage: jest.fn().mockResolvedValue(undefined),
+    };
+    relayed = jest.fn();
+    service = new NotificationOutboxService(
+      outboxRepo as never,
+      rabbitmq as never,
+      {
+        get: () => ({
+          batchSize: 100,
+          maxAttempts: 3,
+          backoffSeconds: 30,
+          retentionDays: 7,
+        }),
+      } as never,
+      { notificationOutboxRelayed: { inc: relayed } } as never,
+      { setContext: jest.fn(), warn: jest.fn() } as never,
+    );
+  });
+
+  it('writes events to the outbox in the caller transaction', async () => {
+    const tx = {};
+    await service.enqueue(
+      [
+        {
+          id: 'message-1',
+          subscriptionId: 'sub_123',
+          eventType: 'renew.success',
+        } as never,
+      ],
+      tx as never,
+    );
+
+    expect(outboxRepo.createMany).toHaveBeenCalledWith(
+      [
+        {
+          message_id: 'message-1',
+          subscription_id: 'sub_123',
+          event_type: 'renew.success',
+          payload: {
+            id: 'message-1',
+            subscriptionId: 'sub_123',
+            eventType: 'renew.success',
+          },
+          status: 'pending',
+        },
+      ],
+      tx,
+    );
+  });
+
+  it('skips the relay while RabbitMQ is down', async () => {
+    rabbitmq.isConnected.mockReturnValue(false);
+
+    await expect(service.relayDue(NOW)).resolves.toBe(0);
+    expect(outboxRepo.findDue).not.toHaveBeenCalled();
+  });
+
+  it('marks confirmed rows sent', async () => {
+    outboxRepo.findDue.mockResolvedValue([buildEntry(1), buildEntry(2)]);
+
+    await expect(service.relayDue(NOW)).resolves.toBe(2);
+
+    expect(outboxRepo.findDue).toHaveBeenCalledWith('pending', NOW, 100);
+    expect(rabbitmq.publishMessage).toHaveBeenCalledWith(buildEntry(1).payload);
+    const [ids, data] = outboxRepo.updateMany.mock.calls[0] as [
+      bigint[],
+      { status: string },
+    ];
+    expect(ids).toEqual([BigInt(1), BigInt(2)]);
+    expect(data.status).toBe('sent');
+    expect(relayed).toHaveBeenCalledWith({ result: 'sent' }, 2);
+  });
+
+  it('schedules a retry with backoff when publishing fails', async () => {
+    outboxRepo.findDue.mockResolvedValue([buildEntry(1, 1), buildEntry(2)]);
+    rabbitmq.publishMessage
+      .mockRejectedValueOnce(new Error('channel closed'))
+      .mockResolvedValueOnce(undefined);
+
+    await service.relayDue(NOW);
+
+    const [where, data] = outboxRepo.update.mock.calls[0] as [
+      { id: bigint },
+      {
+        status: string;
+        attempts: number;
+        next_attempt_at: Date;
+        last_error: string;
+        updated_at: Date;
+      },
+    ];
+    expect(where).toEqual({ id: BigInt(1) });
+    expect(data).toMatchObject({
+      status: 'pending',
+      attempts: 2,
+      last_error: 'Error: channel closed',
+    });
+    expect(data.next_attempt_at.getTime() - data.updated_at.getTime()).toBe(
+      60_000,
+    );
+    expect(outboxRepo.updateMany).toHaveBeenCalledWith(
+      [BigInt(2)],
+      expect.objectContaining({ status: 'sent' }),
+    );
+    expect(relayed).toHaveBeenCalledWith({ result: 'retry' });
+  });
+
+  it('gives up on a row after the last attempt', async () => {
+    outboxRepo.findDue.mockResolvedValue([buildEntry(1, 2)]);
+    rabbitmq.publishMessage.mockRejectedValue(new Error('channel closed'));
+
+    await service.relayDue(NOW);
+
+    expect(outboxRepo.update).toHaveBeenCalledWith(
+      { id: BigInt(1) },
+      expect.objectContaining({ status: 'failed', attempts: 3 }),
+    );
+    expect(relayed).toHaveBeenCalledWith({ result: 'failed' });
+  });
+
+  it('purges sent rows older than the retention period', async () => {
+    await expect(service.purgeSent(NOW)).resolves.toBe(3);
+
+    expect(outboxRepo.deleteBefore).toHaveBeenCalledWith(
+      'sent',
+      new Date('2026-10-12T04:00:00Z'),
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { notification_outbox, Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { MetricsService } from 'src/common/metrics/metrics.service';
+import { RabbitMQProducerService } from 'src/common/rabbitmq/rabbitmq.service';
+import { NotificationOutboxRepository } from 'src/database/notification-outbox.repository';
+import { NotificationPayload } from './event-publisher.service';
+import { OUTBOX_STATUS } from './notification-outbox.constants';
+
+interface NotificationOutboxConfig {
+  batchSize: number;
+  maxAttempts: number;
+  backoffSeconds: number;
+  retentionDays: number;
+}
+
+const PUBLISH_CONCURRENCY = 20;
+
+/**
+ * Transactional outbox for renewal notifications. Events are written to
+ * `notification_outbox` in the same transaction as the changes they
+ * describe, then relayed to RabbitMQ and marked sent once confirmed.
+ *
+ * A row can be published again if the relay stops between the confirm and
+ * marking it sent; the message id is fixed when the row is written, so
+ * consumers deduplicate on it.
+ */
+@Injectable()
+export class NotificationOutboxService implements OnModuleInit {
+  private readonly config: NotificationOutboxConfig;
+
+  constructor(
+    private readonly outboxRepo: NotificationOutboxRepository,
+    private readonly rabbitmqService: RabbitMQProducerService,
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(NotificationOutboxService.name);
+    this.config =
+      this.configService.get<NotificationOutboxConfig>('notificationOutbox')!;
+  }
+
+  onModuleInit() {
+    this.metrics.addCollector(async () => {
+      this.metrics.notificationOutboxPending.set(
+        await this.outboxRepo.count({ status: OUTBOX_STATUS.PENDING }),
+      );
+    });
+  }
+
+  /**
+   * Writes events to the outbox inside the caller's transaction.
+   */
+  async enqueue(
+    events: NotificationPayload[],
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    await this.outboxRepo.createMany(
+      events.map((event) => ({
+        message_id: event.id,
+        subscription_id: event.subscriptionId,
+        event_type: event.eventType,
+        payload: event as unknown as Prisma.InputJsonObject,
+        status: OUTBOX_STATUS.PENDING,
+      })),
+      tx,
+    );
+  }
+
+  /**
+   * Publishes due outbox rows. Returns the number of rows attempted.
+   */
+  async relayDue(now: Date = new Date()): Promise<number> {
+    if (!this.rabbitmqService.isConnected()) {
+      this.logger.warn('RabbitMQ is not connected, outbox relay skipped.');
+      return 0;
+    }
+
+    const due = await this.outboxRepo.findDue(
+      OUTBOX_STATUS.PENDING,
+      now,
+      this.config.batchSize,
+    );
+
+    for (let i = 0; i < due.length; i += PUBLISH_CONCURRENCY) {
+      const chunk = due.slice(i, i + PUBLISH_CONCURRENCY);
+      const sent: bigint[] = [];
+
+      await Promise.all(
+        chunk.map(async (entry) => {
+          try {
+            // Resolves once the broker confirms the message.
+            await this.rabbitmqService.publishMessage(entry.payload);
+            sent.push(entry.id);
+          } catch (error) {
+            await this.recordFailure(entry, error);
+          }
+        }),
+      );
+
+      const sentAt = new Date();
+      await this.outboxRepo.updateMany(sent, {
+        status: OUTBOX_STATUS.SENT,
+        sent_at: sentAt,
+        updated_at: sentAt,
+      });
+      this.metrics.notificationOutboxRelayed.inc(
+        { result: OUTBOX_STATUS.SENT },
+        sent.length,
+      );
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Deletes sent rows older than the retention period.
+   */
+  async purgeSent(now: Date = new Date()): Promise<number> {
+    const before = new Date(
+      now.getTime() - this.config.retentionDays * 24 * 60 * 60 * 1000,
+    );
+    return this.outboxRepo.deleteBefore(OUTBOX_STATUS.SENT, before);
+  }
+
+  private async recordFailure(entry: notification_outbox, error: unknown) {
+    const now = new Date();
+    const attempts = entry.attempts + 1;
+    const exhausted = attempts >= this.config.maxAttempts;
+
+    await this.outboxRepo.update(
+      { id: entry.id },
+      {
+        status: exhausted ? OUTBOX_STATUS.FAILED : OUTBOX_STATUS.PENDING,
+        attempts,
+        next_attempt_at: new Date(
+          now.getTime() +
+            this.config.backoffSeconds * 2 ** (attempts - 1) * 1000,
+        ),
+        last_error: String(error),
+        updated_at: now,
+      },
+    );
+    this.metrics.notificationOutboxRelayed.inc({
+      result: exhausted ? OUTBOX_STATUS.FAILED : 'retry',
+    });
+
+    this.logger.warn({
+      msg: exhausted
+        ? 'Outbox notification failed permanently'
+        : 'Outbox notification publish failed, retry scheduled',
+      messageId: entry.message_id,
+      attempts,
+      error: String(error),
+    });
+  }
+}
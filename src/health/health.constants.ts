@@ -0,0 +1,9 @@
+/**
+ * Outcome of a single dependency check, and of the readiness report overall.
+ */
+export const HEALTH_STATUS = {
+  UP: 'up', // Dependency reachable and within its limits
+  DOWN: 'down', // Unreachable, timed out or over its threshold
+} as const;
+
+export type HealthStatus = (typeof HEALTH_STATUS)[keyof typeof HEALTH_STATUS];
@@ -0,0 +1,29 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { HEALTH_STATUS } from './health.constants';
+import { HealthService } from './health.service';
+
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * Liveness. `/health` is kept as an alias for existing probes.
+   */
+  @Get(['', 'live'])
+  getLiveness() {
+    return this.healthService.getLiveness();
+  }
+
+  /**
+   * Readiness, with a per-dependency report. Responds 503 when not ready.
+   */
+  @Get('ready')
+  async getReadiness() {
+    const report = await this.healthService.getReadiness();
+    if (report.status !== HEALTH_STATUS.UP) {
+      throw new ServiceUnavailableException(report);
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PaymentModule } from 'src/payment/payment.module';
+import { RenewalModule } from 'src/renewal/renewal.module';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [RenewalModule, PaymentModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import { RabbitMQProducerService } from 'src/common/rabbitmq/rabbitmq.service';
+import { RedisService } from 'src/common/redis/redis.service';
+import { PrismaService } from 'src/database/prisma.service';
+import { OperatorAdapterRegistry } from 'src/payment/operator-adapter.registry';
+import { RenewalService } from 'src/renewal/renewal.service';
+import { ResultQueueService } from 'src/renewal/result-queue.service';
+import { HEALTH_STATUS, HealthStatus } from './health.constants';
+
+interface HealthConfig {
+  checkTimeoutMs: number;
+  resultBacklogThreshold: number;
+  resultDeadLetterThreshold: number;
+}
+
+export interface DependencyHealth {
+  status: HealthStatus;
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  status: HealthStatus;
+  timestamp: string;
+  checks: Record<string, DependencyHealth>;
+}
+
+/** Thrown by a check to mark its dependency down with some context. */
+class DependencyDownError extends Error {
+  constructor(
+    message: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+  }
+}
+
+@Injectable()
+export class HealthService {
+  private readonly config: HealthConfig;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly rabbitmq: RabbitMQProducerService,
+    private readonly renewalService: RenewalService,
+    private readonly resultQueue: ResultQueueService,
+    private readonly operatorAdapters: OperatorAdapterRegistry,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(HealthService.name);
+    this.config = this.configService.get<HealthConfig>('health')!;
+  }
+
+  /**
+   * Whether the process is up. Deliberately checks no dependencies, so an
+   * outage elsewhere never gets the pod restarted.
+   */
+  getLiveness() {
+    return {
+      status: HEALTH_STATUS.UP,
+      uptime: process.uptime(), // app running time in seconds
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Checks every dependency the service needs to take traffic and process
+   * renewals. Ready only when all of them are up.
+   */
+  async getReadiness(): Promise<ReadinessReport> {
+    const [database, redis, queues, rabbitmq, resultBacklog] =
+      await Promise.all([
+        this.runCheck('database', () => this.checkDatabase()),
+        this.runCheck('redis', () => this.checkRedis()),
+        this.runCheck('queues', () => this.checkQueues()),
+        this.runCheck('rabbitmq', () => this.checkRabbitMQ()),
+        this.runCheck('resultBacklog', () => this.checkResultBacklog()),
+      ]);
+    const checks = { database, redis, queues, rabbitmq, resultBacklog };
+
+    const ready = Object.values(checks).every(
+      (check) => check.status === HEALTH_STATUS.UP,
+    );
+
+    return {
+      status: ready ? HEALTH_STATUS.UP : HEALTH_STATUS.DOWN,
+      timestamp: new Date().toISOString(),
+      checks,
+    };
+  }
+
+  private async checkDatabase() {
+    if (!(await this.prisma.healthCheck())) {
+      throw new DependencyDownError('Database query failed');
+    }
+  }
+
+  private async checkRedis() {
+    await this.redis.ping();
+  }
+
+  /** Pings the connection of every operator's renewal queue. */
+  private async checkQueues() {
+    const details: Record<string, unknown> = {};
+
+    await Promise.all(
+      this.operatorAdapters.list().map(async ({ code }) => {
+        const queue = this.renewalService.getQueue(code);
+        if (!queue) {
+          details[code] = 'not registered';
+          return;
+        }
+
+        const client = await queue.client;
+        await client.ping();
+        details[code] = queue.name;
+      }),
+    );
+
+    return details;
+  }
+
+  private async checkRabbitMQ() {
+    const health = await this.rabbitmq.healthCheck();
+    if (!health.connected) {
+      throw new DependencyDownError('Not connected to RabbitMQ', health);
+    }
+
+    return health;
+  }
+
+  private async checkResultBacklog() {
+    const backlog = await this.resultQueue.getBacklog();
+    const details = {
+      ...backlog,
+      backlogThreshold: this.config.resultBacklogThreshold,
+      deadLetterThreshold: this.config.resultDeadLetterThreshold,
+    };
+
+    if (backlog.pending + backlog.processing > details.backlogThreshold) {
+      throw new DependencyDownError('Result backlog over threshold', details);
+    }
+    if (backlog.deadLetter > details.deadLetterThreshold) {
+      throw new DependencyDownError(
+        'Dead-lettered results over threshold',
+        details,
+      );
+    }
+
+    return details;
+  }
+
+  /**
+   * Runs one check under the configured timeout and times it. A check marks
+   * its dependency down by throwing.
+   */
+  private async runCheck(
+    name: string,
+    check: () => Promise<Record<string, unknown> | void>,
+  ): Promise<DependencyHealth> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const details = await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('Timed out')),
+            this.config.checkTimeoutMs,
+          );
+        }),
+      ]);
+
+      return {
+        status: HEALTH_STATUS.UP,
+        latencyMs: Date.now() - startedAt,
+        ...(details && { details }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn({
+        msg: 'Readiness check failed',
+        dependency: name,
+        error: message,
+      });
+
+      return {
+        status: HEALTH_STATUS.DOWN,
+        latencyMs: Date.now() - startedAt,
+        error: message,
+        ...(error instanceof DependencyDownError &&
+          error.details && { details: error.details }),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -1,10 +1,13 @@
 import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { Logger } from 'nestjs-pino';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    bufferLogs: true,
+  });
 
   // Use pino logger
   const pinoLogger = app.get(Logger);
@@ -13,6 +16,10 @@ async function bootstrap() {
   const configService = app.get(ConfigService);
   const port = configService.get<number>('app.port');
 
+  // Only trust X-Forwarded-For from our own ingress, so req.ip cannot be
+  // spoofed by the caller.
+  app.set('trust proxy', configService.get<number>('app.trustProxyHops', 0));
+
   // Graceful shutdown
   app.enableShutdownHooks();
 
@@ -0,0 +1,13 @@
+/**
+ * `merchant_notifications.delivery_status` values.
+ */
+export const WEBHOOK_DELIVERY_STATUS = {
+  PENDING: 'pending', // Queued, not attempted yet
+  RETRYING: 'retrying', // Failed, next attempt at next_retry_at
+  DELIVERED: 'delivered', // Merchant answered 2xx
+  FAILED: 'failed', // Out of retries
+  PARKED: 'parked', // Merchant has no signing secret; never sent unsigned
+} as const;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
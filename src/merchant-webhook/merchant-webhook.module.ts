@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { HttpClientModule } from 'src/common/http-client/http-client.module';
+import { MerchantWebhookScheduler } from './merchant-webhook.scheduler';
+import { MerchantWebhookService } from './merchant-webhook.service';
+
+@Module({
+  imports: [HttpClientModule],
+  providers: [MerchantWebhookService, MerchantWebhookScheduler],
+  exports: [MerchantWebhookService],
+})
+export class MerchantWebhookModule {}
@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PinoLogger } from 'nestjs-pino';
+import { RedisService } from 'src/common/redis/redis.service';
+import { MerchantWebhookService } from './merchant-webhook.service';
+
+const DELIVERY_LOCK_KEY = 'lock:merchant_webhook_delivery';
+// Extended before every delivery, so it only has to outlast one request.
+const DELIVERY_LOCK_TTL_SECONDS = 60;
+
+@Injectable()
+export class MerchantWebhookScheduler {
+  constructor(
+    private readonly merchantWebhookService: MerchantWebhookService,
+    private readonly redis: RedisService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(MerchantWebhookScheduler.name);
+  }
+
+  /**
+   * CRON Job: delivers queued merchant webhooks. Only one instance delivers
+   * at a time so a notification is never sent twice concurrently.
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS, {
+    name: 'merchant_webhook_delivery',
+  })
+  async handleDelivery() {
+    const lockToken = await this.redis.acquireLock(
+      DELIVERY_LOCK_KEY,
+      DELIVERY_LOCK_TTL_SECONDS,
+      1,
+    );
+    if (!lockToken) return;
+
+    try {
+      const attempted = await this.merchantWebhookService.deliverDue(
+        new Date(),
+        async () => {
+          const stillOwned = await this.redis.extendLock(
+            DELIVERY_LOCK_KEY,
+            lockToken,
+            DELIVERY_LOCK_TTL_SECONDS,
+          );
+          if (!stillOwned) {
+            throw new Error('Lost the merchant webhook delivery lock');
+          }
+        },
+      );
+      if (attempted) {
+        this.logger.info({ msg: 'Merchant webhooks attempted', attempted });
+      }
+    } catch (error) {
+      this.logger.error(
+        { error: String(error) },
+        'Merchant webhook delivery run failed.',
+      );
+    } finally {
+      await this.redis.releaseLock(DELIVERY_LOCK_KEY, lockToken);
+    }
+  }
+}
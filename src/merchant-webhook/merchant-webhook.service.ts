@@ -0,0 +1,243 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { PinoLogger } from 'nestjs-pino';
+import { HttpClientService } from 'src/common/http-client/http-client.service';
+import {
+  MerchantNotificationRepository,
+  MerchantNotificationWithMerchant,
+} from 'src/database/merchant-notification.repository';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+import { NotificationPayload } from 'src/event-publisher/event-publisher.service';
+import {
+  WEBHOOK_DELIVERY_STATUS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './merchant-webhook.constants';
+
+/**
+ * Webhook settings read from `products.notification_config`.
+ */
+interface ProductNotificationConfig {
+  webhookUrl?: string;
+  /** Event types to deliver; all events when omitted. */
+  events?: string[];
+  headers?: Record<string, string>;
+  maxRetries?: number;
+}
+
+interface MerchantWebhookConfig {
+  secrets: Record<string, string>;
+  timeout: number;
+  maxRetries: number;
+  backoffSeconds: number;
+}
+
+const DELIVERY_BATCH_SIZE = 100;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+@Injectable()
+export class MerchantWebhookService {
+  private readonly config: MerchantWebhookConfig;
+
+  constructor(
+    private readonly notificationRepo: MerchantNotificationRepository,
+    private readonly httpClient: HttpClientService,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(MerchantWebhookService.name);
+    this.config =
+      this.configService.get<MerchantWebhookConfig>('merchantWebhook')!;
+  }
+
+  /**
+   * Builds the `merchant_notifications` row for a renewal event, or null when
+   * the product has no webhook configured for that event type.
+   */
+  buildNotification(
+    data: Pick<
+      RenewableSubscriptionPayload,
+      'merchant_id' | 'product_id' | 'merchant_transaction_id' | 'products'
+    >,
+    event: NotificationPayload,
+  ): Prisma.merchant_notificationsCreateManyInput | null {
+    const config = data.products.notification_config as
+      | ProductNotificationConfig
+      | null
+      | undefined;
+
+    if (!config?.webhookUrl) return null;
+    if (config.events && !config.events.includes(event.eventType)) return null;
+
+    return {
+      merchant_id: data.merchant_id,
+      product_id: data.product_id,
+      webhook_url: config.webhookUrl,
+      event_type: event.eventType,
+      headers: config.headers ?? {},
+      payload: event as unknown as Prisma.InputJsonObject,
+      related_order_id: data.merchant_transaction_id,
+      delivery_status: WEBHOOK_DELIVERY_STATUS.PENDING,
+      max_retries: config.maxRetries ?? this.config.maxRetries,
+    };
+  }
+
+  /**
+   * Delivers pending notifications and retries whose backoff has elapsed.
+   * @param keepAlive Called before each delivery, e.g. to extend the lock
+   * guarding the run; throwing stops the run.
+   */
+  async deliverDue(
+    now: Date = new Date(),
+    keepAlive?: () => Promise<void>,
+  ): Promise<number> {
+    const due = await this.notificationRepo.findDue(
+      [WEBHOOK_DELIVERY_STATUS.PENDING, WEBHOOK_DELIVERY_STATUS.RETRYING],
+      now,
+      DELIVERY_BATCH_SIZE,
+    );
+
+    for (const notification of due) {
+      await keepAlive?.();
+      await this.deliver(notification);
+    }
+
+    return due.length;
+  }
+
+  private async deliver(
+    notification: MerchantNotificationWithMerchant,
+  ): Promise<void> {
+    // Signed at send time over the exact bytes sent, since the stored JSONB
+    // payload does not preserve key order.
+    const body = JSON.stringify(notification.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = this.sign(
+      notification.merchants.merchant_code,
+      timestamp,
+      body,
+    );
+    if (!signature) {
+      await this.park(notification);
+      return;
+    }
+
+    const headers: Record<string, string> = {
+      ...(notification.headers as Record<string, string>),
+      'Content-Type': 'application/json',
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_SIGNATURE_HEADER]: signature,
+    };
+
+    const response = await this.httpClient.post(
+      notification.webhook_url,
+      body,
+      { headers, timeout: this.config.timeout },
+    );
+
+    const now = new Date();
+    const delivered =
+      !response.error && response.status >= 200 && response.status < 300;
+    const retryCount = (notification.retry_count ?? 0) + (delivered ? 0 : 1);
+    const maxRetries = notification.max_retries ?? this.config.maxRetries;
+    const exhausted = !delivered && retryCount > maxRetries;
+
+    let deliveryStatus: string = WEBHOOK_DELIVERY_STATUS.RETRYING;
+    if (delivered) {
+      deliveryStatus = WEBHOOK_DELIVERY_STATUS.DELIVERED;
+    } else if (exhausted) {
+      deliveryStatus = WEBHOOK_DELIVERY_STATUS.FAILED;
+    }
+
+    await this.notificationRepo.update(
+      { id: notification.id },
+      {
+        headers,
+        signature,
+        sent_at: now,
+        response_status_code: response.status,
+        response_body: this.stringifyResponse(response.data),
+        response_time_ms: response.duration,
+        delivery_status: deliveryStatus,
+        retry_count: retryCount,
+        next_retry_at:
+          delivered || exhausted
+            ? null
+            : new Date(
+                now.getTime() +
+                  this.config.backoffSeconds * 2 ** (retryCount - 1) * 1000,
+              ),
+        failed_at: exhausted ? now : null,
+        error_message: delivered
+          ? null
+          : (response.error?.message ?? `HTTP ${response.status}`),
+        updated_at: now,
+      },
+    );
+
+    if (!delivered) {
+      this.logger.warn({
+        msg: exhausted
+          ? 'Merchant webhook failed permanently'
+          : 'Merchant webhook delivery failed, retry scheduled',
+        notificationId: notification.id.toString(),
+        merchantCode: notification.merchants.merchant_code,
+        status: response.status,
+        retryCount,
+      });
+    }
+  }
+
+  /**
+   * Sets aside a notification that cannot be signed. It is left PARKED
+   * rather than failed, so it can be requeued once a secret is configured.
+   */
+  private async park(
+    notification: MerchantNotificationWithMerchant,
+  ): Promise<void> {
+    const merchantCode = notification.merchants.merchant_code;
+
+    await this.notificationRepo.update(
+      { id: notification.id },
+      {
+        delivery_status: WEBHOOK_DELIVERY_STATUS.PARKED,
+        next_retry_at: null,
+        error_message: `No webhook secret configured for merchant ${merchantCode}`,
+        updated_at: new Date(),
+      },
+    );
+
+    this.logger.error({
+      msg: 'Merchant webhook parked: no signing secret configured',
+      notificationId: notification.id.toString(),
+      merchantCode,
+    });
+  }
+
+  /**
+   * HMAC-SHA256 over `<timestamp>.<body>` with the merchant's secret.
+   * Returns null when the merchant has no secret configured.
+   */
+  private sign(
+    merchantCode: string,
+    timestamp: string,
+    body: string,
+  ): string | null {
+    const secret = this.config.secrets[merchantCode];
+    if (!secret) return null;
+
+    const digest = createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return `sha256=${digest}`;
+  }
+
+  private stringifyResponse(data: unknown): string | null {
+    if (data === null || data === undefined) return null;
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return text.slice(0, MAX_RESPONSE_BODY_LENGTH);
+  }
+}
@@ -0,0 +1,23 @@
+import { CallbackEventType } from '../operator-callback.constants';
+
+/**
+ * Operator-agnostic view of a callback payload.
+ */
+export interface ParsedOperatorCallback {
+  eventType: CallbackEventType;
+  /** `referenceCode` we sent with the charge (= billing event reference). */
+  referenceCode?: string;
+  consentId?: string;
+  /** Our `subscriptions.payment_channel_reference_id` at the operator. */
+  channelReferenceId?: string;
+  msisdn?: string;
+}
+
+/**
+ * Maps one operator's callback payload into {@link ParsedOperatorCallback}.
+ */
+export interface OperatorCallbackParser {
+  readonly operatorCode: string;
+
+  parse(payload: Record<string, unknown>): ParsedOperatorCallback;
+}
@@ -0,0 +1,26 @@
+/**
+ * Normalized callback events, stored in `payment_channel_webhooks.event_type`.
+ */
+export const CALLBACK_EVENT_TYPE = {
+  CHARGE_SUCCESS: 'CHARGE_SUCCESS', // Late or asynchronous charge confirmation
+  CHARGE_FAILED: 'CHARGE_FAILED',
+  UNSUBSCRIBE: 'UNSUBSCRIBE', // Subscriber opted out through the operator
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+export type CallbackEventType =
+  (typeof CALLBACK_EVENT_TYPE)[keyof typeof CALLBACK_EVENT_TYPE];
+
+/**
+ * `payment_channel_webhooks.processing_status` values.
+ */
+export const CALLBACK_PROCESSING_STATUS = {
+  PENDING: 'PENDING', // Stored, waiting for reconciliation
+  PROCESSED: 'PROCESSED', // Subscription reconciled
+  IGNORED: 'IGNORED', // Nothing to reconcile
+  FAILED: 'FAILED', // Reconciliation threw
+  REJECTED: 'REJECTED', // Authenticity check failed
+} as const;
+
+/** `subscription_status_changes.event_source` for callback-driven changes. */
+export const CALLBACK_EVENT_SOURCE = 'OPERATOR_CALLBACK';
@@ -0,0 +1,63 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Post,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  OperatorCallbackRequest,
+  OperatorCallbackService,
+} from './operator-callback.service';
+
+/**
+ * Inbound asynchronous notifications from operators. Every call is stored in
+ * `payment_channel_webhooks` and reconciled in the background.
+ */
+@Controller('callbacks')
+export class OperatorCallbackController {
+  constructor(private readonly callbackService: OperatorCallbackService) {}
+
+  @Post('gp')
+  @HttpCode(HttpStatus.OK)
+  handleGp(
+    @Headers() headers: OperatorCallbackRequest['headers'],
+    @Body() payload: Record<string, unknown>,
+    @Ip() ip: string,
+  ) {
+    return this.ingest('GP', headers, payload, ip);
+  }
+
+  @Post('robi')
+  @HttpCode(HttpStatus.OK)
+  handleRobi(
+    @Headers() headers: OperatorCallbackRequest['headers'],
+    @Body() payload: Record<string, unknown>,
+    @Ip() ip: string,
+  ) {
+    return this.ingest('ROBI', headers, payload, ip);
+  }
+
+  private async ingest(
+    operatorCode: string,
+    headers: OperatorCallbackRequest['headers'],
+    payload: Record<string, unknown>,
+    ip: string,
+  ) {
+    // `ip` honours the `trust proxy` setting, unlike X-Forwarded-For itself.
+    const result = await this.callbackService.ingest(operatorCode, {
+      headers,
+      payload: payload ?? {},
+      ip: ip?.replace(/^::ffff:/, ''),
+    });
+
+    if (!result.verified) {
+      throw new UnauthorizedException('Callback verification failed');
+    }
+
+    return { received: true, id: result.id.toString() };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RenewalModule } from 'src/renewal/renewal.module';
+import { OperatorCallbackController } from './operator-callback.controller';
+import { OperatorCallbackScheduler } from './operator-callback.scheduler';
+import { OperatorCallbackService } from './operator-callback.service';
+
+@Module({
+  imports: [RenewalModule],
+  controllers: [OperatorCallbackController],
+  providers: [OperatorCallbackService, OperatorCallbackScheduler],
+})
+export class OperatorCallbackModule {}
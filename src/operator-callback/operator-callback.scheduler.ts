@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PinoLogger } from 'nestjs-pino';
+import { RedisService } from 'src/common/redis/redis.service';
+import { OperatorCallbackService } from './operator-callback.service';
+
+const RECONCILE_LOCK_KEY = 'lock:operator_callback_reconcile';
+const RECONCILE_LOCK_TTL_SECONDS = 60;
+
+@Injectable()
+export class OperatorCallbackScheduler {
+  constructor(
+    private readonly callbackService: OperatorCallbackService,
+    private readonly redis: RedisService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(OperatorCallbackScheduler.name);
+  }
+
+  /**
+   * CRON Job: reconciles stored operator callbacks with their subscriptions.
+   */
+  @Cron(CronExpression.EVERY_30_SECONDS, {
+    name: 'operator_callback_reconcile',
+  })
+  async handleReconcile() {
+    const lockToken = await this.redis.acquireLock(
+      RECONCILE_LOCK_KEY,
+      RECONCILE_LOCK_TTL_SECONDS,
+      1,
+    );
+    if (!lockToken) return;
+
+    try {
+      const processed = await this.callbackService.reconcilePending();
+      if (processed) {
+        this.logger.info({ msg: 'Operator callbacks reconciled', processed });
+      }
+    } catch (error) {
+      this.logger.error(
+        { error: String(error) },
+        'Operator callback reconciliation run failed.',
+      );
+    } finally {
+      await this.redis.releaseLock(RECONCILE_LOCK_KEY, lockToken);
+    }
+  }
+}
@@ -0,0 +1,463 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  payment_channel_webhooks,
+  Prisma,
+  subscriptions,
+} from '@prisma/client';
+import { timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+import { PinoLogger } from 'nestjs-pino';
+import { OperatorCallbackAuth } from 'src/config/operator-callback.config';
+import { BillingEventRepository } from 'src/database/billing-event.repository';
+import { PaymentChannelWebhookRepository } from 'src/database/payment-channel-webhook.repository';
+import { SubscriptionStatusChangeRepository } from 'src/database/subscription-status-change.repository';
+import { SubscriptionRepository } from 'src/database/subscription.repository';
+import { TransactionService } from 'src/database/transaction.service';
+import { calculateNextBillingAt } from 'src/renewal/billing-calendar';
+import {
+  ChargeIdempotencyService,
+  CompletedCharge,
+} from 'src/renewal/charge-idempotency.service';
+import { RenewalService } from 'src/renewal/renewal.service';
+import {
+  OperatorCallbackParser,
+  ParsedOperatorCallback,
+} from './interfaces/operator-callback-parser.interface';
+import {
+  CALLBACK_EVENT_SOURCE,
+  CALLBACK_EVENT_TYPE,
+  CALLBACK_PROCESSING_STATUS,
+} from './operator-callback.constants';
+import { GpCallbackParser } from './parsers/gp-callback.parser';
+import { RobiCallbackParser } from './parsers/robi-callback.parser';
+
+export interface OperatorCallbackRequest {
+  headers: Record<string, string | string[] | undefined>;
+  payload: Record<string, unknown>;
+  ip?: string;
+}
+
+interface ReconcileOutcome {
+  changed: boolean;
+  /** Due date of the cycle the subscription was on before reconciling. */
+  dueAt: Date;
+  lateCharge: LateCharge | null;
+}
+
+type LateCharge = Omit<CompletedCharge, 'subscriptionId' | 'cycleDate'>;
+
+const CALLBACK_TOKEN_HEADER = 'x-callback-token';
+// Credentials are never persisted with the stored callback.
+const REDACTED_HEADERS = [
+  CALLBACK_TOKEN_HEADER,
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'x-api-key',
+];
+const REDACTED_VALUE = '[REDACTED]';
+const RECONCILE_BATCH_SIZE = 200;
+
+@Injectable()
+export class OperatorCallbackService {
+  private readonly parsers = new Map<string, OperatorCallbackParser>(
+    [new GpCallbackParser(), new RobiCallbackParser()].map((parser) => [
+      parser.operatorCode,
+      parser,
+    ]),
+  );
+  private readonly auth: Record<string, OperatorCallbackAuth>;
+  private readonly timezone: string;
+
+  constructor(
+    private readonly webhookRepo: PaymentChannelWebhookRepository,
+    private readonly billingEventRepo: BillingEventRepository,
+    private readonly subscriptionRepo: SubscriptionRepository,
+    private readonly statusChangeRepo: SubscriptionStatusChangeRepository,
+    private readonly transactionService: TransactionService,
+    private readonly chargeIdempotency: ChargeIdempotencyService,
+    private readonly renewalService: RenewalService,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(OperatorCallbackService.name);
+    this.auth = this.configService.get('operatorCallback.auth') ?? {};
+    this.timezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+  }
+
+  /**
+   * Persists a raw callback and links it to a subscription. Callbacks that
+   * fail verification are stored as REJECTED and reported back as such.
+   */
+  async ingest(
+    operatorCode: string,
+    request: OperatorCallbackRequest,
+  ): Promise<{ id: bigint; verified: boolean }> {
+    const parser = this.parsers.get(operatorCode)!;
+    const verified = this.verify(operatorCode, request);
+    const parsed = parser.parse(request.payload);
+    const relatedSubscriptionId = verified
+      ? await this.resolveSubscriptionId(operatorCode, parsed)
+      : null;
+
+    const row = await this.webhookRepo.create({
+      payment_channel: operatorCode,
+      event_type: parsed.eventType,
+      headers: redactHeaders(request.headers),
+      payload: request.payload as Prisma.InputJsonObject,
+      ip_address: request.ip && isIP(request.ip) ? request.ip : null,
+      processing_status: verified
+        ? CALLBACK_PROCESSING_STATUS.PENDING
+        : CALLBACK_PROCESSING_STATUS.REJECTED,
+      error_message: verified ? null : 'Callback authenticity check failed',
+      ...(relatedSubscriptionId && {
+        subscriptions: { connect: { subscription_id: relatedSubscriptionId } },
+      }),
+    });
+
+    if (!verified) {
+      this.logger.warn({
+        msg: 'Rejected operator callback',
+        operatorCode,
+        webhookId: row.id.toString(),
+        ip: request.ip,
+      });
+    }
+
+    return { id: row.id, verified };
+  }
+
+  /**
+   * Reconciles stored callbacks against their subscriptions.
+   */
+  async reconcilePending(): Promise<number> {
+    const pending = await this.webhookRepo.findByStatus(
+      CALLBACK_PROCESSING_STATUS.PENDING,
+      RECONCILE_BATCH_SIZE,
+    );
+
+    for (const webhook of pending) {
+      try {
+        await this.reconcile(webhook);
+      } catch (error) {
+        this.logger.error(
+          { error: String(error), webhookId: webhook.id.toString() },
+          'Failed to reconcile operator callback.',
+        );
+        await this.webhookRepo.update(
+          { id: webhook.id },
+          {
+            processing_status: CALLBACK_PROCESSING_STATUS.FAILED,
+            processed_at: new Date(),
+            error_message: String(error),
+          },
+        );
+      }
+    }
+
+    return pending.length;
+  }
+
+  private async reconcile(webhook: payment_channel_webhooks): Promise<void> {
+    const eventType = webhook.event_type;
+    const subscriptionId = webhook.related_subscription_id;
+
+    const isActionable =
+      eventType === CALLBACK_EVENT_TYPE.UNSUBSCRIBE ||
+      eventType === CALLBACK_EVENT_TYPE.CHARGE_SUCCESS;
+
+    if (!subscriptionId || !isActionable) {
+      await this.webhookRepo.update(
+        { id: webhook.id },
+        {
+          processing_status: CALLBACK_PROCESSING_STATUS.IGNORED,
+          processed_at: new Date(),
+          error_message: subscriptionId
+            ? null
+            : 'No matching subscription found',
+        },
+      );
+      return;
+    }
+
+    const referenceCode = this.parsers
+      .get(webhook.payment_channel)
+      ?.parse(webhook.payload as Record<string, unknown>).referenceCode;
+
+    const outcome = await this.transactionService.executeInTransaction(
+      async (tx: Prisma.TransactionClient): Promise<ReconcileOutcome> => {
+        const subscription = await this.subscriptionRepo.findWithPlan(
+          subscriptionId,
+          tx,
+        );
+        const now = new Date();
+        let reason: string | null = null;
+        let lateCharge: LateCharge | null = null;
+
+        if (
+          subscription &&
+          eventType === CALLBACK_EVENT_TYPE.UNSUBSCRIBE &&
+          subscription.status !== 'CANCELLED'
+        ) {
+          await this.subscriptionRepo.update(
+            { subscription_id: subscriptionId },
+            { status: 'CANCELLED', auto_renew: false, next_billing_at: null },
+            tx,
+          );
+          reason = `${webhook.payment_channel} reported an operator-initiated unsubscribe`;
+          await this.recordStatusChange(
+            tx,
+            subscriptionId,
+            subscription.status,
+            'CANCELLED',
+            reason,
+            now,
+          );
+        }
+
+        if (subscription && eventType === CALLBACK_EVENT_TYPE.CHARGE_SUCCESS) {
+          lateCharge = await this.recordLateCharge(
+            tx,
+            subscription,
+            referenceCode,
+          );
+        }
+
+        if (subscription && lateCharge) {
+          reason = `${webhook.payment_channel} confirmed a late charge`;
+
+          // Never revive a subscription the subscriber cancelled. Otherwise
+          // the recorded charge settles the cycle whatever the status: a
+          // subscription in its grace window is still ACTIVE, but its
+          // billing date and grace window must move on all the same.
+          if (subscription.status !== 'CANCELLED') {
+            await this.subscriptionRepo.update(
+              { subscription_id: subscriptionId },
+              {
+                status: 'ACTIVE',
+                grace_period_ends_at: null,
+                last_payment_succeed_at: now,
+                next_billing_at: calculateNextBillingAt({
+                  dueAt: subscription.next_billing_at ?? now,
+                  plan: subscription.product_plans,
+                  timeZone: this.timezone,
+                  anchorAt: subscription.onboarded_at,
+                  now,
+                }),
+              },
+              tx,
+            );
+          }
+          if (!['ACTIVE', 'CANCELLED'].includes(subscription.status)) {
+            await this.recordStatusChange(
+              tx,
+              subscriptionId,
+              subscription.status,
+              'ACTIVE',
+              reason,
+              now,
+            );
+          }
+        }
+
+        await this.webhookRepo.update(
+          { id: webhook.id },
+          {
+            processing_status: reason
+              ? CALLBACK_PROCESSING_STATUS.PROCESSED
+              : CALLBACK_PROCESSING_STATUS.IGNORED,
+            processed_at: now,
+            error_message: reason ? null : 'Subscription already up to date',
+          },
+          tx,
+        );
+
+        return {
+          changed: reason !== null,
+          dueAt: subscription?.next_billing_at ?? now,
+          lateCharge,
+        };
+      },
+    );
+
+    if (outcome.changed) {
+      await this.settlePendingRenewals(subscriptionId, outcome);
+    }
+  }
+
+  /**
+   * Writes the billing event for a charge the operator confirmed after our
+   * attempt was recorded as failed. Returns null when the charge is already
+   * on record.
+   */
+  private async recordLateCharge(
+    tx: Prisma.TransactionClient,
+    subscription: subscriptions,
+    referenceCode: string | undefined,
+  ): Promise<LateCharge | null> {
+    const attempt = await this.billingEventRepo.findLatestRenewalAttempt(
+      subscription.subscription_id,
+      referenceCode,
+      tx,
+    );
+    if (attempt?.status === 'SUCCESS') return null;
+
+    const paymentReferenceId =
+      referenceCode ?? attempt?.payment_reference_id ?? null;
+    const amount = attempt?.amount ?? new Prisma.Decimal(0);
+    const currency = attempt?.currency ?? 'BDT';
+
+    await this.billingEventRepo.createMany(
+      [
+        {
+          subscription_id: subscription.subscription_id,
+          merchant_id: subscription.merchant_id,
+          product_id: subscription.product_id,
+          plan_id: subscription.plan_id,
+          payment_channel_id: subscription.payment_channel_id,
+          msisdn: subscription.msisdn,
+          payment_reference_id: paymentReferenceId,
+          event_type: 'RENEWAL',
+          status: 'SUCCESS',
+          amount,
+          amount_with_vat: attempt?.amount_with_vat,
+          plan_pricing_id:
+            attempt?.plan_pricing_id ?? subscription.plan_pricing_id,
+          currency,
+          response_code: CALLBACK_EVENT_TYPE.CHARGE_SUCCESS,
+          response_message: 'Charge confirmed by operator callback',
+          cycle_date: this.chargeIdempotency.getCycleDay(
+            subscription.next_billing_at ?? new Date(),
+          ),
+        },
+      ],
+      tx,
+    );
+
+    return {
+      paymentReferenceId,
+      amount: amount.toNumber(),
+      currency,
+      chargedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Keeps queued renewals from charging a subscription that was cancelled or
+   * already paid through the operator: marks the cycle as charged and drops
+   * jobs that have not started. The processor re-checks the subscription
+   * before charging, so this is best-effort.
+   */
+  private async settlePendingRenewals(
+    subscriptionId: string,
+    outcome: ReconcileOutcome,
+  ): Promise<void> {
+    try {
+      if (outcome.lateCharge) {
+        await this.chargeIdempotency.markCharged(
+          { subscription_id: subscriptionId },
+          outcome.dueAt,
+          outcome.lateCharge,
+        );
+      }
+
+      const subscription =
+        await this.subscriptionRepo.findRenewableById(subscriptionId);
+      if (subscription) {
+        await this.renewalService.removePendingJobs(subscription);
+      }
+    } catch (error) {
+      this.logger.warn({
+        msg: 'Failed to settle pending renewals after callback.',
+        subscriptionId,
+        error: String(error),
+      });
+    }
+  }
+
+  private async recordStatusChange(
+    tx: Prisma.TransactionClient,
+    subscriptionId: string,
+    previousStatus: string,
+    newStatus: string,
+    reason: string,
+    changedAt: Date,
+  ): Promise<void> {
+    await this.statusChangeRepo.createMany(
+      [
+        {
+          subscription_id: subscriptionId,
+          event_type: 'OPERATOR_CALLBACK',
+          event_source: CALLBACK_EVENT_SOURCE,
+          event_status: 'SUCCESS',
+          previous_status: previousStatus,
+          new_status: newStatus,
+          reason,
+          status_changed_at: changedAt,
+        },
+      ],
+      tx,
+    );
+  }
+
+  /**
+   * Checks the shared token and/or source IP configured for the operator.
+   * Operators without any configured check are rejected.
+   */
+  private verify(operatorCode: string, request: OperatorCallbackRequest) {
+    // The token is always required; an IP allow-list only narrows it.
+    const auth = this.auth[operatorCode];
+    if (!auth?.token) return false;
+
+    if (
+      auth.allowedIps?.length &&
+      !auth.allowedIps.includes(request.ip ?? '')
+    ) {
+      return false;
+    }
+
+    const header = request.headers[CALLBACK_TOKEN_HEADER];
+    const provided = Buffer.from(
+      (Array.isArray(header) ? header[0] : header) ?? '',
+    );
+    const expected = Buffer.from(auth.token);
+
+    return (
+      provided.length === expected.length && timingSafeEqual(provided, expected)
+    );
+  }
+
+  private async resolveSubscriptionId(
+    operatorCode: string,
+    parsed: ParsedOperatorCallback,
+  ): Promise<string | null> {
+    if (parsed.referenceCode) {
+      const subscriptionId =
+        await this.billingEventRepo.findSubscriptionIdByPaymentReference(
+          parsed.referenceCode,
+        );
+      if (subscriptionId) return subscriptionId;
+    }
+
+    return this.subscriptionRepo.findIdByChannelIdentifiers(operatorCode, {
+      consentId: parsed.consentId,
+      paymentChannelReferenceId: parsed.channelReferenceId,
+      msisdn: parsed.msisdn,
+    });
+  }
+}
+
+function redactHeaders(
+  headers: OperatorCallbackRequest['headers'],
+): Prisma.InputJsonObject {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      REDACTED_HEADERS.includes(name.toLowerCase()) ? REDACTED_VALUE : value,
+    ]),
+  ) as Prisma.InputJsonObject;
+}
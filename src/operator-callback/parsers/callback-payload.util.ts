@@ -0,0 +1,17 @@
+/**
+ * Returns the first of `keys` holding a non-empty string or number, as a string.
+ */
+export function pickString(
+  source: Record<string, unknown> | undefined,
+  ...keys: string[]
+): string | undefined {
+  if (!source) return undefined;
+
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,61 @@
+import {
+  OperatorCallbackParser,
+  ParsedOperatorCallback,
+} from '../interfaces/operator-callback-parser.interface';
+import { CALLBACK_EVENT_TYPE } from '../operator-callback.constants';
+import { pickString } from './callback-payload.util';
+
+/**
+ * GP partner notifications: OneAPI `amountTransaction` objects for charges and
+ * consent notifications (`notificationType` / `consentStatus`) for opt-outs.
+ */
+export class GpCallbackParser implements OperatorCallbackParser {
+  readonly operatorCode = 'GP';
+
+  parse(payload: Record<string, unknown>): ParsedOperatorCallback {
+    const transaction = payload.amountTransaction as
+      | Record<string, unknown>
+      | undefined;
+    const consentId = pickString(payload, 'consentId');
+
+    if (transaction) {
+      const status = pickString(
+        transaction,
+        'transactionOperationStatus',
+      )?.toLowerCase();
+      // Echoes the charge request: chargingMetaData.mandateId.consentId.
+      const metaData = (transaction.paymentAmount as Record<string, unknown>)
+        ?.chargingMetaData as Record<string, unknown> | undefined;
+      const mandate = metaData?.mandateId as
+        | Record<string, unknown>
+        | undefined;
+
+      return {
+        eventType:
+          status === 'charged'
+            ? CALLBACK_EVENT_TYPE.CHARGE_SUCCESS
+            : CALLBACK_EVENT_TYPE.CHARGE_FAILED,
+        referenceCode: pickString(transaction, 'referenceCode'),
+        consentId: consentId ?? pickString(mandate, 'consentId'),
+        channelReferenceId: pickString(transaction, 'endUserId'),
+      };
+    }
+
+    const type = pickString(
+      payload,
+      'notificationType',
+      'consentStatus',
+    )?.toUpperCase();
+    const isUnsubscribe =
+      type !== undefined &&
+      ['UNSUBSCRIBE', 'CONSENT_REVOKED', 'REVOKED', 'CANCELLED'].includes(type);
+
+    return {
+      eventType: isUnsubscribe
+        ? CALLBACK_EVENT_TYPE.UNSUBSCRIBE
+        : CALLBACK_EVENT_TYPE.UNKNOWN,
+      consentId,
+      channelReferenceId: pickString(payload, 'endUserId'),
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  OperatorCallbackParser,
+  ParsedOperatorCallback,
+} from '../interfaces/operator-callback-parser.interface';
+import { CALLBACK_EVENT_TYPE } from '../operator-callback.constants';
+import { pickString } from './callback-payload.util';
+
+/**
+ * Robi notifications carry an `action`/`eventType` (RENEW, UNSUBSCRIBE, ...)
+ * plus the `msisdn` and `referenceCode` from our charge request.
+ */
+export class RobiCallbackParser implements OperatorCallbackParser {
+  readonly operatorCode = 'ROBI';
+
+  parse(payload: Record<string, unknown>): ParsedOperatorCallback {
+    const action = pickString(payload, 'action', 'eventType')?.toUpperCase();
+    const status = pickString(
+      payload,
+      'transactionOperationStatus',
+      'status',
+    )?.toLowerCase();
+
+    let eventType: ParsedOperatorCallback['eventType'] =
+      CALLBACK_EVENT_TYPE.UNKNOWN;
+    if (action === 'UNSUBSCRIBE' || action === 'DEACTIVATE') {
+      eventType = CALLBACK_EVENT_TYPE.UNSUBSCRIBE;
+    } else if (status) {
+      eventType =
+        status === 'charged' || status === 'success'
+          ? CALLBACK_EVENT_TYPE.CHARGE_SUCCESS
+          : CALLBACK_EVENT_TYPE.CHARGE_FAILED;
+    }
+
+    return {
+      eventType,
+      referenceCode: pickString(payload, 'referenceCode', 'spTransID'),
+      msisdn: pickString(payload, 'msisdn'),
+    };
+  }
+}
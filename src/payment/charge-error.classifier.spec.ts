@@ -0,0 +1,120 @@
+import {
+  classifyChargeError,
+  extractOneApiError,
+  formatChargeFailureMessage,
+} from './charge-error.classifier';
+import {
+  GP_CHARGE_ERROR_RULES,
+  ROBI_CHARGE_ERROR_RULES,
+} from './constants/charge-error-codes.constants';
+
+describe('charge-error.classifier', () => {
+  describe('extractOneApiError', () => {
+    it('reads the policy exception code and text', () => {
+      expect(
+        extractOneApiError({
+          requestError: {
+            policyException: { messageId: 'POL1000', text: 'Low balance' },
+          },
+        }),
+      ).toEqual({ code: 'POL1000', message: 'Low balance' });
+    });
+
+    it('falls back to the service exception', () => {
+      expect(
+        extractOneApiError({
+          requestError: { serviceException: { messageId: 'SVC0001' } },
+        }),
+      ).toEqual({ code: 'SVC0001', message: undefined });
+    });
+
+    it('returns nothing for bodies that are not OneAPI errors', () => {
+      expect(extractOneApiError('Bad Gateway')).toEqual({
+        code: undefined,
+        message: undefined,
+      });
+    });
+  });
+
+  describe('classifyChargeError', () => {
+    it('matches operator codes case-insensitively', () => {
+      expect(
+        classifyChargeError(
+          { httpStatus: 400, operatorError: { code: 'pol1000' } },
+          GP_CHARGE_ERROR_RULES,
+        ),
+      ).toEqual({
+        category: 'INSUFFICIENT_FUNDS',
+        code: 'pol1000',
+        message: undefined,
+      });
+    });
+
+    it('prefers an operator code over the error text', () => {
+      expect(
+        classifyChargeError(
+          {
+            httpStatus: 400,
+            operatorError: {
+              code: 'SUBSCRIPTION_NOT_FOUND',
+              message: 'Insufficient balance',
+            },
+          },
+          ROBI_CHARGE_ERROR_RULES,
+        ).category,
+      ).toBe('CONSENT_INVALID');
+    });
+
+    it('uses the common text heuristics when no code matches', () => {
+      const classify = (message: string) =>
+        classifyChargeError(
+          { httpStatus: 400, operatorError: { code: 'X1', message } },
+          GP_CHARGE_ERROR_RULES,
+        ).category;
+
+      expect(classify('Not enough credit')).toBe('INSUFFICIENT_FUNDS');
+      expect(classify('Mandate revoked by subscriber')).toBe('CONSENT_INVALID');
+      expect(classify('Subscriber is barred')).toBe('PERMANENT_REJECT');
+      expect(classify('Gateway busy, try again')).toBe('TRANSIENT');
+    });
+
+    it('classifies transport errors as transient', () => {
+      expect(
+        classifyChargeError(
+          { httpStatus: 0, error: { code: 'ECONNRESET' } },
+          GP_CHARGE_ERROR_RULES,
+        ).category,
+      ).toBe('TRANSIENT');
+    });
+
+    it('falls back to the HTTP status', () => {
+      const classify = (httpStatus: number) =>
+        classifyChargeError({ httpStatus }, GP_CHARGE_ERROR_RULES).category;
+
+      expect(classify(401)).toBe('AUTH_ERROR');
+      expect(classify(403)).toBe('AUTH_ERROR');
+      expect(classify(429)).toBe('TRANSIENT');
+      expect(classify(503)).toBe('TRANSIENT');
+      expect(classify(404)).toBe('PERMANENT_REJECT');
+      expect(classify(302)).toBe('UNKNOWN');
+    });
+  });
+
+  describe('formatChargeFailureMessage', () => {
+    it('includes the category, code and text', () => {
+      expect(
+        formatChargeFailureMessage('GP', {
+          category: 'INSUFFICIENT_FUNDS',
+          code: 'POL1000',
+          message: 'Low balance',
+        }),
+      ).toBe('GP: Charging failed (INSUFFICIENT_FUNDS: POL1000 Low balance).');
+    });
+
+    it('omits missing details', () => {
+      expect(formatChargeFailureMessage('ROBI', { category: 'UNKNOWN' })).toBe(
+        'ROBI: Charging failed (UNKNOWN).',
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { HttpStatus } from '@nestjs/common';
+import { HttpCallError } from 'src/common/http-client/http-client.service';
+import {
+  CHARGE_ERROR_CATEGORY,
+  ChargeErrorCategory,
+} from './constants/charge-error-category.constants';
+import {
+  COMMON_CHARGE_ERROR_RULES,
+  ChargeErrorRule,
+} from './constants/charge-error-codes.constants';
+
+export interface OperatorErrorDetails {
+  code?: string;
+  message?: string;
+}
+
+export interface ClassifiedChargeError {
+  category: ChargeErrorCategory;
+  code?: string;
+  message?: string;
+}
+
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNABORTED',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ERR_NETWORK',
+];
+
+const AUTH_ERROR_STATUSES: number[] = [
+  HttpStatus.UNAUTHORIZED,
+  HttpStatus.FORBIDDEN,
+];
+
+const TRANSIENT_STATUSES: number[] = [
+  HttpStatus.REQUEST_TIMEOUT,
+  HttpStatus.TOO_MANY_REQUESTS,
+];
+
+const PERMANENT_REJECT_STATUSES: number[] = [
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.NOT_FOUND,
+  HttpStatus.CONFLICT,
+  HttpStatus.UNPROCESSABLE_ENTITY,
+];
+
+/**
+ * Extracts the error code and text from a OneAPI `requestError` body, e.g.
+ * `{ requestError: { policyException: { messageId: 'POL1000', text: '...' } } }`.
+ */
+export function extractOneApiError(payload: unknown): OperatorErrorDetails {
+  const requestError = asRecord(asRecord(payload)?.requestError);
+  const exception = asRecord(
+    requestError?.policyException ?? requestError?.serviceException,
+  );
+
+  return {
+    code: asString(exception?.messageId),
+    message: asString(exception?.text),
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  return typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * Maps an operator error (code/text), HTTP status and transport error into a
+ * normalized {@link ChargeErrorCategory}. Operator rules win over the common
+ * text heuristics, which win over HTTP status fallbacks.
+ */
+export function classifyChargeError(
+  input: {
+    httpStatus: number;
+    error?: HttpCallError;
+    operatorError?: OperatorErrorDetails;
+  },
+  operatorRules: ChargeErrorRule[],
+): ClassifiedChargeError {
+  const { httpStatus, error, operatorError } = input;
+  const code = operatorError?.code?.toString();
+  const message = operatorError?.message ?? error?.message;
+
+  if (code) {
+    const rule = operatorRules.find((r) =>
+      r.codes?.some((c) => c.toLowerCase() === code.toLowerCase()),
+    );
+    if (rule) return { category: rule.category, code, message };
+  }
+
+  if (message) {
+    const rule = [...operatorRules, ...COMMON_CHARGE_ERROR_RULES].find((r) =>
+      r.pattern?.test(message),
+    );
+    if (rule) return { category: rule.category, code, message };
+  }
+
+  return { category: categorizeHttpFailure(httpStatus, error), code, message };
+}
+
+function categorizeHttpFailure(
+  httpStatus: number,
+  error?: HttpCallError,
+): ChargeErrorCategory {
+  if (error?.code && TRANSIENT_NETWORK_CODES.includes(error.code)) {
+    return CHARGE_ERROR_CATEGORY.TRANSIENT;
+  }
+
+  if (AUTH_ERROR_STATUSES.includes(httpStatus)) {
+    return CHARGE_ERROR_CATEGORY.AUTH_ERROR;
+  }
+
+  if (TRANSIENT_STATUSES.includes(httpStatus) || httpStatus >= 500) {
+    return CHARGE_ERROR_CATEGORY.TRANSIENT;
+  }
+
+  if (PERMANENT_REJECT_STATUSES.includes(httpStatus)) {
+    return CHARGE_ERROR_CATEGORY.PERMANENT_REJECT;
+  }
+
+  return CHARGE_ERROR_CATEGORY.UNKNOWN;
+}
+
+export function formatChargeFailureMessage(
+  operatorCode: string,
+  classified: ClassifiedChargeError,
+): string {
+  const detail = [classified.code, classified.message]
+    .filter(Boolean)
+    .join(' ');
+
+  return `${operatorCode}: Charging failed (${classified.category}${detail ? `: ${detail}` : ''}).`;
+}
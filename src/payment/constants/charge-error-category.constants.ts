@@ -0,0 +1,14 @@
+/**
+ * Normalized reasons a charge attempt can fail, independent of operator.
+ */
+export const CHARGE_ERROR_CATEGORY = {
+  INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS', // Subscriber balance too low
+  PERMANENT_REJECT: 'PERMANENT_REJECT', // Barred, invalid or deactivated subscriber
+  CONSENT_INVALID: 'CONSENT_INVALID', // Consent/mandate missing, expired or revoked
+  AUTH_ERROR: 'AUTH_ERROR', // Our credentials were rejected by the gateway
+  TRANSIENT: 'TRANSIENT', // Timeouts, throttling and gateway-side failures
+  UNKNOWN: 'UNKNOWN', // Anything the operator taxonomy does not cover
+} as const;
+
+export type ChargeErrorCategory =
+  (typeof CHARGE_ERROR_CATEGORY)[keyof typeof CHARGE_ERROR_CATEGORY];
@@ -0,0 +1,75 @@
+import {
+  CHARGE_ERROR_CATEGORY,
+  ChargeErrorCategory,
+} from './charge-error-category.constants';
+
+export interface ChargeErrorRule {
+  category: ChargeErrorCategory;
+  /** Operator error codes (exact match, case-insensitive). */
+  codes?: string[];
+  /** Matched against the operator error text when no code matches. */
+  pattern?: RegExp;
+}
+
+/**
+ * Text heuristics shared by all operators, evaluated after the
+ * operator-specific rules.
+ */
+export const COMMON_CHARGE_ERROR_RULES: ChargeErrorRule[] = [
+  {
+    category: CHARGE_ERROR_CATEGORY.INSUFFICIENT_FUNDS,
+    pattern: /insufficient|low balance|not enough (credit|balance)/i,
+  },
+  {
+    category: CHARGE_ERROR_CATEGORY.CONSENT_INVALID,
+    pattern: /consent|mandate/i,
+  },
+  {
+    category: CHARGE_ERROR_CATEGORY.PERMANENT_REJECT,
+    pattern:
+      /barred|blacklist|blocked|invalid (msisdn|subscriber|number)|not (a )?valid subscriber|deactivated|unsubscribed/i,
+  },
+  {
+    category: CHARGE_ERROR_CATEGORY.TRANSIENT,
+    pattern: /time ?out|timed out|try again|temporar|throttl|busy/i,
+  },
+];
+
+// GP partner payment API (OneAPI style requestError.messageId)
+export const GP_CHARGE_ERROR_RULES: ChargeErrorRule[] = [
+  { category: CHARGE_ERROR_CATEGORY.INSUFFICIENT_FUNDS, codes: ['POL1000'] },
+  {
+    category: CHARGE_ERROR_CATEGORY.PERMANENT_REJECT,
+    codes: ['POL0001', 'SVC0002', 'SVC0004', 'SVC0007'],
+  },
+  { category: CHARGE_ERROR_CATEGORY.TRANSIENT, codes: ['SVC0001'] },
+];
+
+// Robi renewSubscription aggregator API (errorCode / statusCode fields)
+export const ROBI_CHARGE_ERROR_RULES: ChargeErrorRule[] = [
+  {
+    category: CHARGE_ERROR_CATEGORY.INSUFFICIENT_FUNDS,
+    codes: ['INSUFFICIENT_BALANCE'],
+  },
+  {
+    category: CHARGE_ERROR_CATEGORY.PERMANENT_REJECT,
+    codes: ['SUBSCRIBER_BARRED', 'INVALID_MSISDN'],
+  },
+  {
+    category: CHARGE_ERROR_CATEGORY.CONSENT_INVALID,
+    codes: ['SUBSCRIPTION_NOT_FOUND'],
+  },
+  { category: CHARGE_ERROR_CATEGORY.AUTH_ERROR, codes: ['INVALID_API_KEY'] },
+  { category: CHARGE_ERROR_CATEGORY.TRANSIENT, codes: ['SYSTEM_BUSY'] },
+];
+
+// Robi MIFE gateway (OneAPI style requestError.messageId)
+export const ROBI_MIFE_CHARGE_ERROR_RULES: ChargeErrorRule[] = [
+  { category: CHARGE_ERROR_CATEGORY.INSUFFICIENT_FUNDS, codes: ['POL1000'] },
+  {
+    category: CHARGE_ERROR_CATEGORY.PERMANENT_REJECT,
+    codes: ['POL0001', 'SVC0002', 'SVC0004', 'SVC0007'],
+  },
+  { category: CHARGE_ERROR_CATEGORY.AUTH_ERROR, codes: ['900901', '900902'] },
+  { category: CHARGE_ERROR_CATEGORY.TRANSIENT, codes: ['SVC0001', '900800'] },
+];
@@ -0,0 +1,10 @@
+/**
+ * States of an operator's circuit breaker.
+ */
+export const CIRCUIT_STATE = {
+  CLOSED: 'CLOSED', // Gateway healthy, calls go through
+  OPEN: 'OPEN', // Too many gateway failures, calls are held back
+  HALF_OPEN: 'HALF_OPEN', // Cool-down over, a single probe call is allowed
+} as const;
+
+export type CircuitState = (typeof CIRCUIT_STATE)[keyof typeof CIRCUIT_STATE];
@@ -1,11 +1,21 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PinoLogger } from 'nestjs-pino';
+import { HttpClientService } from 'src/common/http-client/http-client.service';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
 import {
-  HttpCallError,
-  HttpClientService,
-} from 'src/common/http-client/http-client.service';
+  classifyChargeError,
+  extractOneApiError,
+  formatChargeFailureMessage,
+} from './charge-error.classifier';
+import { GP_CHARGE_ERROR_RULES } from './constants/charge-error-codes.constants';
 import { transactionSourceChannel } from './constants/transaction-source.channel.constants';
+import {
+  ChargeOutcome,
+  OperatorChargeResponse,
+  OperatorChargingAdapter,
+} from './interfaces/operator-charging-adapter.interface';
+import { ResolvedPricing } from './pricing.service';
 
 interface GpPaymentServiceConfig {
   baseUrl: string;
@@ -28,7 +38,9 @@ type ChargeRequest = {
 };
 
 @Injectable()
-export class GpPaymentService {
+export class GpPaymentService
+  implements OperatorChargingAdapter<ChargeRequest>
+{
   private readonly config: GpPaymentServiceConfig;
   private readonly GAMES = ['XPGames', 'GameApex'];
 
@@ -47,15 +59,28 @@ export class GpPaymentService {
     };
   }
 
-  async charge(data: ChargeRequest): Promise<{
-    success: boolean;
-    data: any;
-    error?: HttpCallError;
-    httpStatus: number;
-    responsePayload?: any;
-    requestPayload: object;
-    responseDuration: number;
-  }> {
+  buildChargeRequest(
+    data: RenewableSubscriptionPayload,
+    referenceCode: string,
+    pricing: ResolvedPricing,
+  ): ChargeRequest {
+    const config = data.charging_configurations?.config as
+      | { keyword?: string }
+      | undefined;
+
+    return {
+      amount: pricing.amount,
+      endUserId: data.payment_channel_reference_id,
+      currency: pricing.currency,
+      description: data.products.description,
+      consentId: data.consent_id,
+      validityInDays: data.product_plans.billing_cycle_days,
+      referenceCode,
+      productId: config?.keyword ?? '',
+    };
+  }
+
+  async charge(data: ChargeRequest): Promise<OperatorChargeResponse> {
     try {
       const url = `${this.config.baseUrl}/partner/payment/v1/${data.endUserId}/transactions/amount`;
 
@@ -96,11 +121,7 @@ export class GpPaymentService {
         this.getAuthHeaders(),
       );
 
-      const isPaymentSuccessful = response.status === 200;
-
       return {
-        success: isPaymentSuccessful,
-        data: response.data as unknown,
         error: response.error,
         httpStatus: response.status,
         responsePayload: response.data as unknown,
@@ -113,6 +134,30 @@ export class GpPaymentService {
     }
   }
 
+  classifyResult(response: OperatorChargeResponse): ChargeOutcome {
+    const success = response.httpStatus === 200;
+
+    if (success) {
+      return { success, message: 'GP: Successfully charged subscription.' };
+    }
+
+    const classified = classifyChargeError(
+      {
+        httpStatus: response.httpStatus,
+        error: response.error,
+        operatorError: extractOneApiError(response.responsePayload),
+      },
+      GP_CHARGE_ERROR_RULES,
+    );
+
+    return {
+      success,
+      message: formatChargeFailureMessage('GP', classified),
+      errorCategory: classified.category,
+      errorCode: classified.code,
+    };
+  }
+
   private getAuthHeaders() {
     const credentials = `${this.config.auth.username}:${this.config.auth.password}`;
     const encoded = Buffer.from(credentials).toString('base64');
@@ -0,0 +1,53 @@
+import { HttpCallError } from 'src/common/http-client/http-client.service';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+import { ChargeErrorCategory } from '../constants/charge-error-category.constants';
+import { ResolvedPricing } from '../pricing.service';
+
+/**
+ * Normalized response returned by every operator charge call.
+ */
+export interface OperatorChargeResponse {
+  httpStatus: number;
+  error?: HttpCallError;
+  requestPayload: object;
+  responsePayload?: unknown;
+  responseDuration: number;
+}
+
+/**
+ * Operator-agnostic interpretation of an {@link OperatorChargeResponse}.
+ */
+export interface ChargeOutcome {
+  success: boolean;
+  message: string;
+  /** Set when the charge failed. */
+  errorCategory?: ChargeErrorCategory;
+  /** Raw operator error code, when the gateway returned one. */
+  errorCode?: string;
+}
+
+/**
+ * Contract every carrier integration implements so the renewal pipeline can
+ * charge it without operator-specific code.
+ */
+export interface OperatorChargingAdapter<TRequest = unknown> {
+  /**
+   * Maps a renewable subscription and its resolved price to the operator
+   * charge request. Returns null when the subscription lacks the data
+   * required to charge.
+   */
+  buildChargeRequest(
+    data: RenewableSubscriptionPayload,
+    referenceCode: string,
+    pricing: ResolvedPricing,
+  ): TRequest | null;
+
+  /** Performs the charge call against the operator gateway. */
+  charge(request: TRequest): Promise<OperatorChargeResponse>;
+
+  /**
+   * Decides whether the gateway response represents a successful charge and,
+   * if not, maps it into a normalized error category.
+   */
+  classifyResult(response: OperatorChargeResponse): ChargeOutcome;
+}
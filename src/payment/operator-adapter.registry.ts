@@ -0,0 +1,46 @@
+import { Type } from '@nestjs/common';
+import { GpPaymentService } from './gp.payment.service';
+import { OperatorChargingAdapter } from './interfaces/operator-charging-adapter.interface';
+import { RobiMifePaymentService } from './robi-mife.payment.service';
+import { RobiPaymentService } from './robi.payment.service';
+
+export interface OperatorAdapterRegistration {
+  /** Matches `payment_channels.code`. */
+  code: string;
+  adapter: Type<OperatorChargingAdapter>;
+  /** Worker concurrency per replica. */
+  concurrency: number;
+}
+
+export interface RegisteredOperatorAdapter
+  extends Omit<OperatorAdapterRegistration, 'adapter'> {
+  adapter: OperatorChargingAdapter;
+}
+
+/**
+ * Every operator the renewal pipeline can charge. Adding a carrier means
+ * implementing an {@link OperatorChargingAdapter} and listing it here.
+ */
+export const OPERATOR_ADAPTERS: OperatorAdapterRegistration[] = [
+  { code: 'GP', adapter: GpPaymentService, concurrency: 18 },
+  { code: 'ROBI', adapter: RobiPaymentService, concurrency: 10 },
+  { code: 'ROBI_MIFE', adapter: RobiMifePaymentService, concurrency: 10 },
+];
+
+export class OperatorAdapterRegistry {
+  private readonly adapters = new Map<string, RegisteredOperatorAdapter>();
+
+  constructor(registrations: RegisteredOperatorAdapter[]) {
+    for (const registration of registrations) {
+      this.adapters.set(registration.code, registration);
+    }
+  }
+
+  get(code: string): RegisteredOperatorAdapter | undefined {
+    return this.adapters.get(code);
+  }
+
+  list(): RegisteredOperatorAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
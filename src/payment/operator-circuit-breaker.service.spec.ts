@@ -0,0 +1,224 @@
+import { OperatorCircuitBreaker } from './operator-circuit-breaker.service';
+
+const OPEN_MS = 30_000;
+const T0 = Date.parse('2026-10-19T04:00:00Z');
+
+/** In-memory stand-in for the Redis calls the breaker makes. */
+const createRedis = () => {
+  const hashes = new Map<string, Record<string, string>>();
+  const windows = new Map<string, number[]>();
+  const locks = new Set<string>();
+
+  return {
+    hgetall: jest.fn((key: string) => Promise.resolve({ ...hashes.get(key) })),
+    compareAndSetHash: jest.fn(
+      (
+        key: string,
+        field: string,
+        expected: string,
+        entries: Record<string, string>,
+        matchMissing = false,
+      ) => {
+        const hash = hashes.get(key) ?? {};
+        const current = hash[field];
+        if (current !== expected && !(current === undefined && matchMissing)) {
+          return Promise.resolve(false);
+        }
+        hashes.set(key, { ...hash, ...entries });
+        return Promise.resolve(true);
+      },
+    ),
+    countWindowEvents: jest.fn(
+      (key: string, windowMs: number, add: boolean, now: number) => {
+        const events = (windows.get(key) ?? []).filter(
+          (at) => at > now - windowMs,
+        );
+        if (add) events.push(now);
+        windows.set(key, events);
+        return Promise.resolve(events.length);
+      },
+    ),
+    acquireLock: jest.fn((key: string) => {
+      if (locks.has(key)) return Promise.resolve(null);
+      locks.add(key);
+      return Promise.resolve('lock-token');
+    }),
+    del: jest.fn((key: string) => {
+      hashes.delete(key);
+      windows.delete(key);
+      locks.delete(key);
+      return Promise.resolve();
+    }),
+  };
+};
+
+describe('OperatorCircuitBreaker', () => {
+  let redis: ReturnType<typeof createRedis>;
+  let transitions: jest.Mock;
+  let logger: {
+    setContext: jest.Mock;
+    info: jest.Mock;
+    warn: jest.Mock;
+    error: jest.Mock;
+  };
+
+  const createBreaker = () =>
+    new OperatorCircuitBreaker(
+      redis as never,
+      {
+        get: () => ({
+          errorThresholdPercent: 50,
+          minRequests: 4,
+          windowSeconds: 60,
+          openSeconds: OPEN_MS / 1000,
+        }),
+      } as never,
+      {
+        circuitState: { set: jest.fn() },
+        circuitTransitions: { inc: transitions },
+      } as never,
+      logger as never,
+    );
+
+  let breaker: OperatorCircuitBreaker;
+
+  const trip = async (at: number) => {
+    await breaker.record('GP', false, at);
+    await breaker.record('GP', false, at);
+    await breaker.record('GP', true, at);
+    return breaker.record('GP', true, at);
+  };
+
+  beforeEach(() => {
+    redis = createRedis();
+    transitions = jest.fn();
+    logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    breaker = createBreaker();
+  });
+
+  it('stays closed until the window holds enough requests', async () => {
+    await breaker.record('GP', true, T0);
+    await breaker.record('GP', true, T0);
+
+    await expect(breaker.record('GP', true, T0)).resolves.toEqual({
+      state: 'CLOSED',
+      retryAfterMs: 0,
+    });
+    await expect(breaker.permit('GP', T0)).resolves.toEqual({
+      allowed: true,
+      retryAfterMs: 0,
+    });
+  });
+
+  it('opens once the failure share crosses the threshold', async () => {
+    await expect(trip(T0)).resolves.toEqual({
+      state: 'OPEN',
+      retryAfterMs: OPEN_MS,
+    });
+    await expect(breaker.permit('GP', T0 + 10_000)).resolves.toEqual({
+      allowed: false,
+      retryAfterMs: OPEN_MS - 10_000,
+    });
+    expect(transitions).toHaveBeenCalledWith({
+      operator: 'GP',
+      from: 'CLOSED',
+      to: 'OPEN',
+    });
+  });
+
+  it('forgets outcomes that fell out of the window', async () => {
+    await breaker.record('GP', true, T0);
+    await breaker.record('GP', true, T0);
+
+    await breaker.record('GP', true, T0 + 61_000);
+    await expect(breaker.record('GP', false, T0 + 61_000)).resolves.toEqual({
+      state: 'CLOSED',
+      retryAfterMs: 0,
+    });
+  });
+
+  it('lets a single probe through once the open period is over', async () => {
+    await trip(T0);
+
+    await expect(breaker.permit('GP', T0 + OPEN_MS)).resolves.toEqual({
+      allowed: true,
+      retryAfterMs: 0,
+    });
+    await expect(breaker.permit('GP', T0 + OPEN_MS)).resolves.toEqual({
+      allowed: false,
+      retryAfterMs: OPEN_MS,
+    });
+  });
+
+  it('closes with a clean window when the probe succeeds', async () => {
+    await trip(T0);
+    await breaker.permit('GP', T0 + OPEN_MS);
+
+    await expect(breaker.record('GP', false, T0 + OPEN_MS)).resolves.toEqual({
+      state: 'CLOSED',
+      retryAfterMs: 0,
+    });
+    await expect(breaker.getSnapshot(['GP'], T0 + OPEN_MS)).resolves.toEqual({
+      GP: { state: 'CLOSED', requests: 0, failures: 0, openedAt: null },
+    });
+  });
+
+  it('reopens when the probe fails', async () => {
+    await trip(T0);
+    await breaker.permit('GP', T0 + OPEN_MS);
+
+    await expect(breaker.record('GP', true, T0 + OPEN_MS)).resolves.toEqual({
+      state: 'OPEN',
+      retryAfterMs: OPEN_MS,
+    });
+    await expect(breaker.permit('GP', T0 + OPEN_MS + 1)).resolves.toEqual({
+      allowed: false,
+      retryAfterMs: OPEN_MS - 1,
+    });
+  });
+
+  it('shares the circuit between replicas', async () => {
+    const other = createBreaker();
+    await trip(T0);
+
+    await expect(other.permit('GP', T0 + 1)).resolves.toMatchObject({
+      allowed: false,
+    });
+
+    const probes = await Promise.all([
+      breaker.permit('GP', T0 + OPEN_MS),
+      other.permit('GP', T0 + OPEN_MS),
+    ]);
+    expect(probes.filter((probe) => probe.allowed)).toHaveLength(1);
+    expect(transitions).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports the circuit of every operator asked for', async () => {
+    await trip(T0);
+
+    await expect(breaker.getSnapshot(['GP', 'ROBI'], T0)).resolves.toEqual({
+      GP: {
+        state: 'OPEN',
+        requests: 4,
+        failures: 2,
+        openedAt: new Date(T0).toISOString(),
+      },
+      ROBI: { state: 'CLOSED', requests: 0, failures: 0, openedAt: null },
+    });
+  });
+
+  it('does not throw when the outcome cannot be recorded', async () => {
+    redis.hgetall.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(breaker.record('GP', true, T0)).resolves.toEqual({
+      state: 'CLOSED',
+      retryAfterMs: 0,
+    });
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,310 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import { MetricsService } from 'src/common/metrics/metrics.service';
+import { RedisService } from 'src/common/redis/redis.service';
+import {
+  CIRCUIT_STATE,
+  CircuitState,
+} from './constants/circuit-state.constants';
+
+const CIRCUIT_STATE_GAUGE_VALUE: Record<CircuitState, number> = {
+  [CIRCUIT_STATE.CLOSED]: 0,
+  [CIRCUIT_STATE.HALF_OPEN]: 1,
+  [CIRCUIT_STATE.OPEN]: 2,
+};
+
+interface CircuitBreakerConfig {
+  errorThresholdPercent: number;
+  minRequests: number;
+  windowSeconds: number;
+  openSeconds: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  openedAt: number;
+}
+
+export interface CircuitPermit {
+  allowed: boolean;
+  /** When not allowed, how long until the next probe may run. */
+  retryAfterMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  openedAt: string | null;
+}
+
+export interface CircuitOutcome {
+  state: CircuitState;
+  /** When the circuit is open, how long until the next probe may run. */
+  retryAfterMs: number;
+}
+
+const CIRCUIT_KEY_PREFIX = 'circuit_breaker:operator';
+
+/**
+ * Per-operator circuit breaker around charge calls. Opens when the share of
+ * gateway failures in the rolling window crosses the threshold, holds calls
+ * back for `openSeconds`, then lets a single probe decide whether to close.
+ * State lives in Redis, so every replica and worker sees the same circuit.
+ */
+@Injectable()
+export class OperatorCircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(OperatorCircuitBreaker.name);
+    this.config =
+      this.configService.get<CircuitBreakerConfig>('circuitBreaker')!;
+  }
+
+  /**
+   * Whether a charge call to the operator may go ahead now.
+   */
+  async permit(
+    operatorCode: string,
+    now: number = Date.now(),
+  ): Promise<CircuitPermit> {
+    const circuit = await this.getCircuit(operatorCode);
+    if (circuit.state === CIRCUIT_STATE.CLOSED) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    if (circuit.state === CIRCUIT_STATE.OPEN) {
+      const retryAfterMs = this.getRetryAfterMs(circuit, now);
+      if (retryAfterMs > 0) {
+        return { allowed: false, retryAfterMs };
+      }
+      await this.transition(
+        operatorCode,
+        CIRCUIT_STATE.OPEN,
+        CIRCUIT_STATE.HALF_OPEN,
+      );
+    }
+
+    // Only the caller holding the probe lease may go through. The lease
+    // expires on its own in case the probe never reports back.
+    const probe = await this.redis.acquireLock(
+      this.key(operatorCode, 'probe'),
+      this.config.openSeconds,
+      1,
+    );
+    if (!probe) {
+      return { allowed: false, retryAfterMs: this.config.openSeconds * 1000 };
+    }
+
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /**
+   * Records the outcome of a permitted call. Only gateway-side failures
+   * count against the operator; subscriber-level declines do not. Never
+   * throws: the charge has already happened by the time this runs.
+   */
+  async record(
+    operatorCode: string,
+    failed: boolean,
+    now: number = Date.now(),
+  ): Promise<CircuitOutcome> {
+    try {
+      return await this.recordOutcome(operatorCode, failed, now);
+    } catch (error) {
+      this.logger.error({
+        msg: 'Failed to record circuit breaker outcome',
+        operatorCode,
+        failed,
+        error: String(error),
+      });
+      return { state: CIRCUIT_STATE.CLOSED, retryAfterMs: 0 };
+    }
+  }
+
+  async getSnapshot(
+    operatorCodes: string[],
+    now: number = Date.now(),
+  ): Promise<Record<string, CircuitSnapshot>> {
+    const snapshot: Record<string, CircuitSnapshot> = {};
+    for (const operatorCode of operatorCodes) {
+      const circuit = await this.getCircuit(operatorCode);
+      const { requests, failures } = await this.countWindow(
+        operatorCode,
+        undefined,
+        now,
+      );
+      snapshot[operatorCode] = {
+        state: circuit.state,
+        requests,
+        failures,
+        openedAt:
+          circuit.state === CIRCUIT_STATE.CLOSED
+            ? null
+            : new Date(circuit.openedAt).toISOString(),
+      };
+    }
+
+    return snapshot;
+  }
+
+  private async recordOutcome(
+    operatorCode: string,
+    failed: boolean,
+    now: number,
+  ): Promise<CircuitOutcome> {
+    const circuit = await this.getCircuit(operatorCode);
+
+    if (circuit.state === CIRCUIT_STATE.HALF_OPEN) {
+      await this.redis.del(this.key(operatorCode, 'probe'));
+      if (failed) {
+        await this.transition(
+          operatorCode,
+          CIRCUIT_STATE.HALF_OPEN,
+          CIRCUIT_STATE.OPEN,
+          now,
+        );
+        return {
+          state: CIRCUIT_STATE.OPEN,
+          retryAfterMs: this.config.openSeconds * 1000,
+        };
+      }
+      await this.redis.del(this.key(operatorCode, 'requests'));
+      await this.redis.del(this.key(operatorCode, 'failures'));
+      await this.transition(
+        operatorCode,
+        CIRCUIT_STATE.HALF_OPEN,
+        CIRCUIT_STATE.CLOSED,
+      );
+      return { state: CIRCUIT_STATE.CLOSED, retryAfterMs: 0 };
+    }
+
+    const counts = await this.countWindow(operatorCode, failed, now);
+
+    if (circuit.state === CIRCUIT_STATE.OPEN) {
+      return {
+        state: CIRCUIT_STATE.OPEN,
+        retryAfterMs: this.getRetryAfterMs(circuit, now),
+      };
+    }
+
+    if (
+      counts.requests >= this.config.minRequests &&
+      (counts.failures / counts.requests) * 100 >=
+        this.config.errorThresholdPercent
+    ) {
+      await this.transition(
+        operatorCode,
+        CIRCUIT_STATE.CLOSED,
+        CIRCUIT_STATE.OPEN,
+        now,
+        counts,
+      );
+      return {
+        state: CIRCUIT_STATE.OPEN,
+        retryAfterMs: this.config.openSeconds * 1000,
+      };
+    }
+
+    return { state: CIRCUIT_STATE.CLOSED, retryAfterMs: 0 };
+  }
+
+  /** Time left until an open circuit lets a probe through. */
+  private getRetryAfterMs(circuit: Circuit, now: number): number {
+    return Math.max(0, circuit.openedAt + this.config.openSeconds * 1000 - now);
+  }
+
+  private async getCircuit(operatorCode: string): Promise<Circuit> {
+    const stored = await this.redis.hgetall(this.key(operatorCode));
+    const state = (stored.state as CircuitState) ?? CIRCUIT_STATE.CLOSED;
+
+    // Keeps this replica's gauge in line with transitions made elsewhere.
+    this.metrics.circuitState.set(
+      { operator: operatorCode },
+      CIRCUIT_STATE_GAUGE_VALUE[state],
+    );
+
+    return { state, openedAt: Number(stored.opened_at ?? 0) };
+  }
+
+  /**
+   * Prunes the rolling window and counts it, adding this outcome when one
+   * is given.
+   */
+  private async countWindow(
+    operatorCode: string,
+    failed: boolean | undefined,
+    now: number,
+  ): Promise<{ requests: number; failures: number }> {
+    const windowMs = this.config.windowSeconds * 1000;
+    const requests = await this.redis.countWindowEvents(
+      this.key(operatorCode, 'requests'),
+      windowMs,
+      failed !== undefined,
+      now,
+    );
+    const failures = await this.redis.countWindowEvents(
+      this.key(operatorCode, 'failures'),
+      windowMs,
+      failed === true,
+      now,
+    );
+    return { requests, failures };
+  }
+
+  /**
+   * Moves the circuit from `from` to `to` unless another caller already
+   * moved it; only the caller that made the change logs and counts it.
+   */
+  private async transition(
+    operatorCode: string,
+    from: CircuitState,
+    to: CircuitState,
+    now: number = Date.now(),
+    counts?: { requests: number; failures: number },
+  ): Promise<boolean> {
+    const changed = await this.redis.compareAndSetHash(
+      this.key(operatorCode),
+      'state',
+      from,
+      to === CIRCUIT_STATE.OPEN
+        ? { state: to, opened_at: String(now) }
+        : { state: to },
+      from === CIRCUIT_STATE.CLOSED,
+    );
+    if (!changed) return false;
+
+    const log = {
+      msg: `Circuit breaker ${from} -> ${to}`,
+      operatorCode,
+      from,
+      to,
+      ...counts,
+    };
+    if (to === CIRCUIT_STATE.CLOSED) {
+      this.logger.info(log);
+    } else {
+      this.logger.warn(log);
+    }
+
+    this.metrics.circuitState.set(
+      { operator: operatorCode },
+      CIRCUIT_STATE_GAUGE_VALUE[to],
+    );
+    this.metrics.circuitTransitions.inc({ operator: operatorCode, from, to });
+    return true;
+  }
+
+  private key(operatorCode: string, suffix?: string): string {
+    return suffix
+      ? `${CIRCUIT_KEY_PREFIX}:${operatorCode}:${suffix}`
+      : `${CIRCUIT_KEY_PREFIX}:${operatorCode}`;
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import { MetricsService } from 'src/common/metrics/metrics.service';
+import { RedisService } from 'src/common/redis/redis.service';
+import { OperatorRateLimit } from 'src/config/rate-limit.config';
+
+export interface RateLimitAcquisition {
+  acquired: boolean;
+  /** Time spent waiting for a token. */
+  waitedMs: number;
+  /** When not acquired, how long until a token is expected. */
+  retryAfterMs: number;
+}
+
+export interface OperatorThrottleStats {
+  /** Charge calls that had to wait for a token. */
+  throttled: number;
+  /** Charge calls handed back to the queue after `maxWaitMs`. */
+  deferred: number;
+  totalWaitMs: number;
+}
+
+const BUCKET_KEY_PREFIX = 'rate_limit:operator';
+
+/**
+ * Caps outbound charge calls per operator at the operator's TPS, using a
+ * token bucket in Redis shared by every replica and worker.
+ */
+@Injectable()
+export class OperatorRateLimiter {
+  private readonly limits: Record<string, OperatorRateLimit>;
+  private readonly maxWaitMs: number;
+  private readonly stats = new Map<string, OperatorThrottleStats>();
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(OperatorRateLimiter.name);
+    this.limits = this.configService.get('rateLimit.operators') ?? {};
+    this.maxWaitMs = this.configService.get<number>(
+      'rateLimit.maxWaitMs',
+      2000,
+    );
+  }
+
+  /**
+   * Waits for a token for one charge call, up to `maxWaitMs`.
+   */
+  async acquire(operatorCode: string): Promise<RateLimitAcquisition> {
+    const tps = this.limits[operatorCode]?.tps;
+    if (!tps) return { acquired: true, waitedMs: 0, retryAfterMs: 0 };
+
+    const startedAt = Date.now();
+    const key = `${BUCKET_KEY_PREFIX}:${operatorCode}`;
+
+    while (true) {
+      const retryAfterMs = await this.redis.takeToken(key, tps);
+      const waitedMs = Date.now() - startedAt;
+
+      if (retryAfterMs === 0) {
+        if (waitedMs > 0) this.record(operatorCode, waitedMs, false);
+        return { acquired: true, waitedMs, retryAfterMs: 0 };
+      }
+
+      if (waitedMs + retryAfterMs > this.maxWaitMs) {
+        this.record(operatorCode, waitedMs, true);
+        this.logger.warn({
+          msg: 'Operator rate limit reached, deferring charge',
+          operatorCode,
+          tps,
+          retryAfterMs,
+        });
+        return { acquired: false, waitedMs, retryAfterMs };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, retryAfterMs));
+    }
+  }
+
+  /** Throttling counters since startup, per operator. */
+  getStats(): Record<string, OperatorThrottleStats> {
+    return Object.fromEntries(this.stats);
+  }
+
+  private record(operatorCode: string, waitedMs: number, deferred: boolean) {
+    const stats = this.stats.get(operatorCode) ?? {
+      throttled: 0,
+      deferred: 0,
+      totalWaitMs: 0,
+    };
+
+    stats.throttled++;
+    stats.totalWaitMs += waitedMs;
+    if (deferred) stats.deferred++;
+
+    this.stats.set(operatorCode, stats);
+    this.metrics.rateLimitWaits.observe(
+      { operator: operatorCode, deferred: String(deferred) },
+      waitedMs / 1000,
+    );
+  }
+}
@@ -1,11 +1,46 @@
 import { Module } from '@nestjs/common';
 import { HttpClientModule } from 'src/common/http-client/http-client.module';
 import { GpPaymentService } from './gp.payment.service';
+import { OperatorChargingAdapter } from './interfaces/operator-charging-adapter.interface';
+import {
+  OPERATOR_ADAPTERS,
+  OperatorAdapterRegistry,
+} from './operator-adapter.registry';
+import { OperatorCircuitBreaker } from './operator-circuit-breaker.service';
+import { OperatorRateLimiter } from './operator-rate-limiter.service';
+import { PricingService } from './pricing.service';
+import { RobiMifePaymentService } from './robi-mife.payment.service';
 import { RobiPaymentService } from './robi.payment.service';
 
 @Module({
   imports: [HttpClientModule],
-  providers: [GpPaymentService, RobiPaymentService],
-  exports: [GpPaymentService, RobiPaymentService],
+  providers: [
+    GpPaymentService,
+    RobiPaymentService,
+    RobiMifePaymentService,
+    PricingService,
+    OperatorRateLimiter,
+    OperatorCircuitBreaker,
+    {
+      provide: OperatorAdapterRegistry,
+      useFactory: (...adapters: OperatorChargingAdapter[]) =>
+        new OperatorAdapterRegistry(
+          OPERATOR_ADAPTERS.map((registration, index) => ({
+            ...registration,
+            adapter: adapters[index],
+          })),
+        ),
+      inject: OPERATOR_ADAPTERS.map(({ adapter }) => adapter),
+    },
+  ],
+  exports: [
+    GpPaymentService,
+    RobiPaymentService,
+    RobiMifePaymentService,
+    OperatorAdapterRegistry,
+    PricingService,
+    OperatorRateLimiter,
+    OperatorCircuitBreaker,
+  ],
 })
 export class PaymentModule {}
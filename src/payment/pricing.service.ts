@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plan_pricing, Prisma } from '@prisma/client';
+import { getZonedParts } from 'src/common/utils/timezone.util';
+import { PlanPricingRepository } from 'src/database/plan-pricing.repository';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+
+/**
+ * Price to charge for a renewal. `amount` is what the operator is asked to
+ * charge; VAT is reported alongside it and recorded on the billing event.
+ */
+export interface ResolvedPricing {
+  planPricingId: number;
+  currency: string;
+  baseAmount: number;
+  /** Base or promotional price, excluding VAT. */
+  amount: number;
+  vatPercentage: number;
+  vatAmount: number;
+  amountWithVat: number;
+  promotionApplied: boolean;
+}
+
+type PricingRow = Pick<
+  plan_pricing,
+  | 'id'
+  | 'base_amount'
+  | 'vat_percentage'
+  | 'currency'
+  | 'promotional_price'
+  | 'promotion_start_date'
+  | 'promotion_end_date'
+>;
+
+/**
+ * Applies an active promotion and VAT to a price row. `chargeDate` is the
+ * local charge day as a UTC-midnight date, matching the `@db.Date` columns.
+ */
+export function applyPricing(
+  row: PricingRow,
+  chargeDate: Date,
+): ResolvedPricing {
+  // Rows may come from a JSON-serialized job payload, so decimals and dates
+  // can arrive as strings.
+  const baseAmount = new Prisma.Decimal(row.base_amount);
+  const vatPercentage = new Prisma.Decimal(row.vat_percentage ?? 0);
+
+  const promotionStarted =
+    !row.promotion_start_date ||
+    new Date(row.promotion_start_date).getTime() <= chargeDate.getTime();
+  const promotionNotEnded =
+    !row.promotion_end_date ||
+    new Date(row.promotion_end_date).getTime() >= chargeDate.getTime();
+  const promotionApplied =
+    row.promotional_price !== null &&
+    row.promotional_price !== undefined &&
+    promotionStarted &&
+    promotionNotEnded;
+
+  const amount = promotionApplied
+    ? new Prisma.Decimal(row.promotional_price!)
+    : baseAmount;
+  const vatAmount = amount.mul(vatPercentage).div(100).toDecimalPlaces(2);
+
+  return {
+    planPricingId: row.id,
+    currency: row.currency,
+    baseAmount: baseAmount.toNumber(),
+    amount: amount.toNumber(),
+    vatPercentage: vatPercentage.toNumber(),
+    vatAmount: vatAmount.toNumber(),
+    amountWithVat: amount.add(vatAmount).toNumber(),
+    promotionApplied,
+  };
+}
+
+/**
+ * Whether a price row is in effect on the charge date. Mirrors the filter of
+ * `PlanPricingRepository.findEffectivePricing`.
+ */
+function isEffective(
+  row: Pick<plan_pricing, 'is_active' | 'effective_from' | 'effective_to'>,
+  chargeDate: Date,
+): boolean {
+  return (
+    row.is_active === true &&
+    new Date(row.effective_from).getTime() <= chargeDate.getTime() &&
+    (!row.effective_to ||
+      new Date(row.effective_to).getTime() >= chargeDate.getTime())
+  );
+}
+
+@Injectable()
+export class PricingService {
+  private readonly timezone: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly planPricingRepository: PlanPricingRepository,
+  ) {
+    this.timezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+  }
+
+  /**
+   * Resolves the price in effect for the subscription on the charge date.
+   * Falls back to the price row pinned on the subscription when no row is
+   * effective for the plan and channel, provided the pinned row is itself
+   * active and within its effective dates.
+   */
+  async resolve(
+    data: RenewableSubscriptionPayload,
+    chargeAt: Date = new Date(),
+  ): Promise<ResolvedPricing | null> {
+    const { year, month, day } = getZonedParts(chargeAt, this.timezone);
+    const chargeDate = new Date(Date.UTC(year, month - 1, day));
+
+    const row = await this.planPricingRepository.findEffectivePricing(
+      data.plan_id,
+      data.payment_channel_id,
+      chargeDate,
+    );
+    if (row) return applyPricing(row, chargeDate);
+
+    const pinned = data.plan_pricing;
+    return pinned && isEffective(pinned, chargeDate)
+      ? applyPricing(pinned, chargeDate)
+      : null;
+  }
+}
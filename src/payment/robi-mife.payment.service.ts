@@ -0,0 +1,173 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import { HttpClientService } from 'src/common/http-client/http-client.service';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+import {
+  classifyChargeError,
+  extractOneApiError,
+  formatChargeFailureMessage,
+} from './charge-error.classifier';
+import { ROBI_MIFE_CHARGE_ERROR_RULES } from './constants/charge-error-codes.constants';
+import {
+  ChargeOutcome,
+  OperatorChargeResponse,
+  OperatorChargingAdapter,
+} from './interfaces/operator-charging-adapter.interface';
+import { ResolvedPricing } from './pricing.service';
+
+interface RobiMifePaymentServiceConfig {
+  baseUrl: string;
+  timeout: number;
+}
+
+export interface RobiMifeChargeConfig {
+  accessToken: string;
+  serviceId: string;
+  onBehalfOf: string;
+  purchaseCategoryCode: string;
+  channel: string;
+}
+
+interface RobiMifeChargeResponse {
+  amountTransaction?: {
+    transactionOperationStatus?: string;
+    serverReferenceCode?: string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+type RobiMifeChargeRequest = {
+  description: string;
+  currency: string;
+  amount: number;
+  referenceCode: string;
+  msisdn: string;
+  config: RobiMifeChargeConfig;
+};
+
+@Injectable()
+export class RobiMifePaymentService
+  implements OperatorChargingAdapter<RobiMifeChargeRequest>
+{
+  private readonly config: RobiMifePaymentServiceConfig;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpClient: HttpClientService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.config = {
+      baseUrl: this.configService.get('ROBI_MIFE_BASE_URL') ?? '',
+      timeout: this.configService.get('ROBI_MIFE_TIMEOUT') ?? 5000,
+    };
+  }
+
+  buildChargeRequest(
+    data: RenewableSubscriptionPayload,
+    referenceCode: string,
+    pricing: ResolvedPricing,
+  ): RobiMifeChargeRequest | null {
+    const config = data.charging_configurations?.config as
+      | RobiMifeChargeConfig
+      | undefined;
+
+    if (!config) {
+      return null;
+    }
+
+    return {
+      amount: pricing.amount,
+      currency: pricing.currency,
+      description: data.products.description ?? '',
+      referenceCode,
+      msisdn: data.msisdn,
+      config,
+    };
+  }
+
+  async charge(data: RobiMifeChargeRequest): Promise<OperatorChargeResponse> {
+    const { description, config, currency, referenceCode, msisdn, amount } =
+      data;
+
+    try {
+      const endUserId = `tel:+${msisdn}`;
+      const url = `${this.config.baseUrl}/payment/v1/${encodeURIComponent(endUserId)}/transactions/amount`;
+
+      const payload = {
+        amountTransaction: {
+          clientCorrelator: referenceCode,
+          endUserId,
+          paymentAmount: {
+            chargingInformation: {
+              amount,
+              currency: currency ?? 'BDT',
+              description,
+            },
+            chargingMetaData: {
+              onBehalfOf: config.onBehalfOf,
+              purchaseCategoryCode: config.purchaseCategoryCode,
+              channel: config.channel,
+              serviceID: config.serviceId,
+            },
+          },
+          referenceCode,
+          transactionOperationStatus: 'Charged',
+        },
+      };
+
+      const response = await this.httpClient.post(url, payload, {
+        headers: {
+          Authorization: `Bearer ${config.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: this.config.timeout,
+      });
+
+      return {
+        error: response.error,
+        httpStatus: response.status,
+        responsePayload: response.data as unknown,
+        requestPayload: payload,
+        responseDuration: response.duration,
+      };
+    } catch (error) {
+      this.logger.error(error, 'Catch block error in MIFE charging');
+      throw error;
+    }
+  }
+
+  classifyResult(response: OperatorChargeResponse): ChargeOutcome {
+    const responseData = response.responsePayload as RobiMifeChargeResponse;
+
+    const success =
+      (response.httpStatus === 200 || response.httpStatus === 201) &&
+      typeof responseData === 'object' &&
+      responseData?.amountTransaction?.transactionOperationStatus?.toLowerCase?.() ===
+        'charged';
+
+    if (success) {
+      return {
+        success,
+        message: 'ROBI_MIFE: Successfully charged subscription.',
+      };
+    }
+
+    const classified = classifyChargeError(
+      {
+        httpStatus: response.httpStatus,
+        error: response.error,
+        operatorError: extractOneApiError(response.responsePayload),
+      },
+      ROBI_MIFE_CHARGE_ERROR_RULES,
+    );
+
+    return {
+      success,
+      message: formatChargeFailureMessage('ROBI_MIFE', classified),
+      errorCategory: classified.category,
+      errorCode: classified.code,
+    };
+  }
+}
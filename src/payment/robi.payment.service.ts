@@ -2,6 +2,18 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PinoLogger } from 'nestjs-pino';
 import { HttpClientService } from 'src/common/http-client/http-client.service';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+import {
+  classifyChargeError,
+  formatChargeFailureMessage,
+} from './charge-error.classifier';
+import { ROBI_CHARGE_ERROR_RULES } from './constants/charge-error-codes.constants';
+import {
+  ChargeOutcome,
+  OperatorChargeResponse,
+  OperatorChargingAdapter,
+} from './interfaces/operator-charging-adapter.interface';
+import { ResolvedPricing } from './pricing.service';
 
 interface RobiPaymentServiceConfig {
   baseUrl: string;
@@ -21,6 +33,10 @@ export interface RobiChargeConfig {
 
 interface RobiChargeResponse {
   transactionOperationStatus?: string;
+  errorCode?: string | number;
+  errorMessage?: string;
+  statusCode?: string | number;
+  message?: string;
   [key: string]: unknown;
 }
 
@@ -28,6 +44,7 @@ type RobiChargeRequest = {
   description: string;
   currency: string;
   amount: number;
+  taxAmount: number;
   referenceCode: string;
   msisdn: string;
   config: RobiChargeConfig;
@@ -35,7 +52,9 @@ type RobiChargeRequest = {
 };
 
 @Injectable()
-export class RobiPaymentService {
+export class RobiPaymentService
+  implements OperatorChargingAdapter<RobiChargeRequest>
+{
   private readonly config: RobiPaymentServiceConfig;
 
   constructor(
@@ -49,7 +68,32 @@ export class RobiPaymentService {
     };
   }
 
-  async renewSubscription(data: RobiChargeRequest) {
+  buildChargeRequest(
+    data: RenewableSubscriptionPayload,
+    referenceCode: string,
+    pricing: ResolvedPricing,
+  ): RobiChargeRequest | null {
+    const config = data.charging_configurations?.config as
+      | RobiChargeConfig
+      | undefined;
+
+    if (!config) {
+      return null;
+    }
+
+    return {
+      amount: pricing.amount,
+      taxAmount: pricing.vatAmount,
+      currency: pricing.currency,
+      description: data.products.description ?? '',
+      referenceCode,
+      msisdn: data.msisdn,
+      unSubURL: data.products.unsubscription_url,
+      config,
+    };
+  }
+
+  async charge(data: RobiChargeRequest): Promise<OperatorChargeResponse> {
     const {
       description,
       config,
@@ -57,6 +101,7 @@ export class RobiPaymentService {
       referenceCode,
       msisdn,
       amount,
+      taxAmount,
       unSubURL,
     } = data;
 
@@ -74,7 +119,7 @@ export class RobiPaymentService {
         purchaseCategoryCode: config.purchaseCategoryCode,
         referenceCode,
         channel: config.channel,
-        taxAmount: 0,
+        taxAmount,
         msisdn: msisdn,
         operator: 'ROBI',
         subscriptionID: config.subscriptionID,
@@ -85,15 +130,8 @@ export class RobiPaymentService {
       const response = await this.httpClient.post(url, payload, {
         timeout: this.config.timeout,
       });
-      const responseData = response.data as RobiChargeResponse;
-
-      const isPaymentSuccessful =
-        typeof responseData === 'object' &&
-        responseData?.transactionOperationStatus?.toLowerCase?.() === 'charged';
 
       return {
-        success: isPaymentSuccessful,
-        data: response.data as unknown,
         error: response.error,
         httpStatus: response.status,
         responsePayload: response.data as unknown,
@@ -105,4 +143,50 @@ export class RobiPaymentService {
       throw error;
     }
   }
+
+  classifyResult(response: OperatorChargeResponse): ChargeOutcome {
+    const responseData = response.responsePayload as RobiChargeResponse;
+
+    const success =
+      typeof responseData === 'object' &&
+      responseData?.transactionOperationStatus?.toLowerCase?.() === 'charged';
+
+    if (success) {
+      return { success, message: 'ROBI: Successfully charged subscription.' };
+    }
+
+    const classified = classifyChargeError(
+      {
+        httpStatus: response.httpStatus,
+        error: response.error,
+        operatorError: this.extractError(
+          response.responsePayload as RobiChargeResponse,
+        ),
+      },
+      ROBI_CHARGE_ERROR_RULES,
+    );
+
+    return {
+      success,
+      message: formatChargeFailureMessage('ROBI', classified),
+      errorCategory: classified.category,
+      errorCode: classified.code,
+    };
+  }
+
+  private extractError(responseData: RobiChargeResponse | null) {
+    if (!responseData || typeof responseData !== 'object') {
+      return undefined;
+    }
+
+    const code = responseData.errorCode ?? responseData.statusCode;
+
+    return {
+      code: code !== undefined ? String(code) : undefined,
+      message:
+        responseData.errorMessage ??
+        responseData.message ??
+        responseData.transactionOperationStatus,
+    };
+  }
 }
@@ -0,0 +1,203 @@
+import {
+  addBillingPeriods,
+  calculateNextBillingAt,
+  calculateRetryAt,
+  getRenewalWindow,
+  resolveBillingPeriod,
+} from './billing-calendar';
+
+const DHAKA = 'Asia/Dhaka';
+
+/** Builds the UTC instant for a wall-clock time in Dhaka (UTC+6, no DST). */
+const dhaka = (isoLocal: string) => new Date(`${isoLocal}+06:00`);
+
+describe('billing-calendar', () => {
+  describe('resolveBillingPeriod', () => {
+    it('maps calendar frequencies regardless of case and separators', () => {
+      expect(
+        resolveBillingPeriod({
+          billing_frequency: 'monthly',
+          billing_cycle_days: 30,
+        }),
+      ).toEqual({ unit: 'month', count: 1 });
+      expect(
+        resolveBillingPeriod({
+          billing_frequency: 'Half-Yearly',
+          billing_cycle_days: 180,
+        }),
+      ).toEqual({ unit: 'month', count: 6 });
+      expect(
+        resolveBillingPeriod({
+          billing_frequency: 'WEEKLY',
+          billing_cycle_days: 7,
+        }),
+      ).toEqual({ unit: 'day', count: 7 });
+    });
+
+    it('falls back to billing_cycle_days for unknown frequencies', () => {
+      expect(
+        resolveBillingPeriod({
+          billing_frequency: 'CUSTOM',
+          billing_cycle_days: 15,
+        }),
+      ).toEqual({ unit: 'day', count: 15 });
+    });
+  });
+
+  describe('addBillingPeriods', () => {
+    it('uses the local calendar day, not the UTC one', () => {
+      // 2025-01-31 00:30 in Dhaka is still Jan 30 in UTC.
+      const next = addBillingPeriods(
+        dhaka('2025-01-31T00:30:00'),
+        { unit: 'month', count: 1 },
+        1,
+        DHAKA,
+      );
+
+      expect(next).toEqual(dhaka('2025-02-28T00:30:00'));
+    });
+
+    it('clamps to the last day of shorter months', () => {
+      const period = { unit: 'month' as const, count: 1 };
+      const jan31 = dhaka('2024-01-31T10:00:00');
+
+      expect(addBillingPeriods(jan31, period, 1, DHAKA)).toEqual(
+        dhaka('2024-02-29T10:00:00'),
+      );
+      expect(addBillingPeriods(jan31, period, 3, DHAKA)).toEqual(
+        dhaka('2024-04-30T10:00:00'),
+      );
+    });
+
+    it('returns to the anchor day after a clamped month', () => {
+      expect(
+        addBillingPeriods(
+          dhaka('2025-02-28T10:00:00'),
+          { unit: 'month', count: 1 },
+          1,
+          DHAKA,
+          31,
+        ),
+      ).toEqual(dhaka('2025-03-31T10:00:00'));
+    });
+
+    it('rolls over the year end', () => {
+      expect(
+        addBillingPeriods(
+          dhaka('2024-11-15T10:00:00'),
+          { unit: 'month', count: 3 },
+          1,
+          DHAKA,
+        ),
+      ).toEqual(dhaka('2025-02-15T10:00:00'));
+    });
+
+    it('handles yearly renewals from a leap day', () => {
+      expect(
+        addBillingPeriods(
+          dhaka('2024-02-29T10:00:00'),
+          { unit: 'month', count: 12 },
+          1,
+          DHAKA,
+        ),
+      ).toEqual(dhaka('2025-02-28T10:00:00'));
+    });
+  });
+
+  describe('calculateNextBillingAt', () => {
+    const monthly = { billing_frequency: 'MONTHLY', billing_cycle_days: 30 };
+    const thirtyDays = { billing_frequency: 'CUSTOM', billing_cycle_days: 30 };
+
+    it('advances from the due date rather than from now', () => {
+      const next = calculateNextBillingAt({
+        dueAt: dhaka('2025-03-10T01:00:00'),
+        plan: thirtyDays,
+        timeZone: DHAKA,
+        now: dhaka('2025-03-10T18:45:00'),
+      });
+
+      expect(next).toEqual(dhaka('2025-04-09T01:00:00'));
+    });
+
+    it('follows actual month length for monthly plans', () => {
+      const next = calculateNextBillingAt({
+        dueAt: dhaka('2025-02-01T01:00:00'),
+        plan: monthly,
+        timeZone: DHAKA,
+        now: dhaka('2025-02-01T02:00:00'),
+      });
+
+      expect(next).toEqual(dhaka('2025-03-01T01:00:00'));
+    });
+
+    it('keeps month-end subscriptions anchored to the onboarding day', () => {
+      const next = calculateNextBillingAt({
+        dueAt: dhaka('2025-02-28T01:00:00'),
+        anchorAt: dhaka('2025-01-31T09:12:00'),
+        plan: monthly,
+        timeZone: DHAKA,
+        now: dhaka('2025-02-28T03:00:00'),
+      });
+
+      expect(next).toEqual(dhaka('2025-03-31T01:00:00'));
+    });
+
+    it('skips cycles that are already in the past', () => {
+      const next = calculateNextBillingAt({
+        dueAt: dhaka('2025-01-01T01:00:00'),
+        plan: { billing_frequency: 'WEEKLY', billing_cycle_days: 7 },
+        timeZone: DHAKA,
+        now: dhaka('2025-01-20T12:00:00'),
+      });
+
+      expect(next).toEqual(dhaka('2025-01-22T01:00:00'));
+    });
+  });
+
+  describe('calculateRetryAt', () => {
+    it('retries on the next local day at the due time', () => {
+      const next = calculateRetryAt({
+        dueAt: dhaka('2025-05-31T01:00:00'),
+        timeZone: DHAKA,
+        now: dhaka('2025-05-31T23:30:00'),
+      });
+
+      expect(next).toEqual(dhaka('2025-06-01T01:00:00'));
+    });
+
+    it('never schedules a retry in the past', () => {
+      const next = calculateRetryAt({
+        dueAt: dhaka('2025-05-28T01:00:00'),
+        timeZone: DHAKA,
+        now: dhaka('2025-05-31T05:00:00'),
+      });
+
+      expect(next).toEqual(dhaka('2025-06-01T01:00:00'));
+    });
+  });
+
+  describe('getRenewalWindow', () => {
+    it('covers the local day, including hours that are still yesterday in UTC', () => {
+      const window = getRenewalWindow({
+        timeZone: DHAKA,
+        lookbackDays: 0,
+        now: dhaka('2025-06-10T01:00:00'),
+      });
+
+      expect(window).toEqual({
+        from: dhaka('2025-06-10T00:00:00'),
+        to: dhaka('2025-06-11T00:00:00'),
+      });
+    });
+
+    it('reaches back over missed days across a month boundary', () => {
+      const window = getRenewalWindow({
+        timeZone: DHAKA,
+        lookbackDays: 3,
+        now: dhaka('2025-07-01T01:00:00'),
+      });
+
+      expect(window.from).toEqual(dhaka('2025-06-28T00:00:00'));
+    });
+  });
+});
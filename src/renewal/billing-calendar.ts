@@ -0,0 +1,146 @@
+import { product_plans } from '@prisma/client';
+import { getZonedParts, zonedTimeToUtc } from 'src/common/utils/timezone.util';
+
+export interface BillingPeriod {
+  unit: 'day' | 'month';
+  count: number;
+}
+
+/**
+ * Plans billed on calendar months follow the actual month length; anything
+ * else advances by a fixed number of days.
+ */
+const CALENDAR_FREQUENCIES: Record<string, BillingPeriod> = {
+  DAILY: { unit: 'day', count: 1 },
+  WEEKLY: { unit: 'day', count: 7 },
+  FORTNIGHTLY: { unit: 'day', count: 14 },
+  MONTHLY: { unit: 'month', count: 1 },
+  QUARTERLY: { unit: 'month', count: 3 },
+  HALF_YEARLY: { unit: 'month', count: 6 },
+  YEARLY: { unit: 'month', count: 12 },
+  ANNUALLY: { unit: 'month', count: 12 },
+};
+
+export type BillingPlan = Pick<
+  product_plans,
+  'billing_frequency' | 'billing_cycle_days'
+>;
+
+export function resolveBillingPeriod(plan: BillingPlan): BillingPeriod {
+  const frequency = plan.billing_frequency
+    ?.trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, '_');
+
+  return (
+    CALENDAR_FREQUENCIES[frequency] ?? {
+      unit: 'day',
+      count: Math.max(1, plan.billing_cycle_days),
+    }
+  );
+}
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Moves `date` forward by `periods` billing periods in local time, keeping the
+ * wall-clock time. Month-based periods land on `anchorDay`, clamped to the
+ * length of the target month (e.g. Jan 31 -> Feb 28 -> Mar 31).
+ */
+export function addBillingPeriods(
+  date: Date,
+  period: BillingPeriod,
+  periods: number,
+  timeZone: string,
+  anchorDay?: number,
+): Date {
+  const local = getZonedParts(date, timeZone);
+
+  if (period.unit === 'day') {
+    return zonedTimeToUtc(
+      { ...local, day: local.day + period.count * periods },
+      timeZone,
+    );
+  }
+
+  const monthIndex = local.month - 1 + period.count * periods;
+  const year = local.year + Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const day = Math.min(anchorDay ?? local.day, daysInMonth(year, month));
+
+  return zonedTimeToUtc({ ...local, year, month, day }, timeZone);
+}
+
+/**
+ * Next billing date after a successful charge. Advances from the date that
+ * was due (not from when the result happened to be processed) and skips any
+ * cycles that already lie in the past.
+ */
+export function calculateNextBillingAt(params: {
+  dueAt: Date;
+  plan: BillingPlan;
+  timeZone: string;
+  /** Start of the subscription; its local day anchors monthly cycles. */
+  anchorAt?: Date | null;
+  now?: Date;
+}): Date {
+  const { dueAt, plan, timeZone, anchorAt, now = new Date() } = params;
+  const period = resolveBillingPeriod(plan);
+  const anchorDay = getZonedParts(anchorAt ?? dueAt, timeZone).day;
+
+  return rollForward(dueAt, period, timeZone, now, anchorDay);
+}
+
+/**
+ * Next attempt for a failed charge: the following local day at the same
+ * time as the missed due date, never in the past.
+ */
+export function calculateRetryAt(params: {
+  dueAt: Date;
+  timeZone: string;
+  now?: Date;
+}): Date {
+  const { dueAt, timeZone, now = new Date() } = params;
+
+  return rollForward(dueAt, { unit: 'day', count: 1 }, timeZone, now);
+}
+
+/**
+ * Due-date range a dispatch run covers: the whole local day of `now`, plus
+ * `lookbackDays` earlier days so renewals missed by skipped runs are caught
+ * up. `to` is exclusive.
+ */
+export function getRenewalWindow(params: {
+  timeZone: string;
+  lookbackDays: number;
+  now?: Date;
+}): { from: Date; to: Date } {
+  const { timeZone, lookbackDays, now = new Date() } = params;
+  const { year, month, day } = getZonedParts(now, timeZone);
+
+  return {
+    from: zonedTimeToUtc({ year, month, day: day - lookbackDays }, timeZone),
+    to: zonedTimeToUtc({ year, month, day: day + 1 }, timeZone),
+  };
+}
+
+function rollForward(
+  from: Date,
+  period: BillingPeriod,
+  timeZone: string,
+  now: Date,
+  anchorDay?: number,
+): Date {
+  // Always count periods from the original date so month-end clamping does
+  // not accumulate (Jan 31 + 2 months is Mar 31, not Mar 28).
+  let periods = 1;
+  let next = addBillingPeriods(from, period, periods, timeZone, anchorDay);
+
+  while (next.getTime() <= now.getTime()) {
+    periods++;
+    next = addBillingPeriods(from, period, periods, timeZone, anchorDay);
+  }
+
+  return next;
+}
@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import { RedisService } from 'src/common/redis/redis.service';
+import { getZonedParts } from 'src/common/utils/timezone.util';
+import { BillingEventRepository } from 'src/database/billing-event.repository';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+import { ChargeResult } from './renewal.service';
+
+/**
+ * The charge that already settled a subscription's billing cycle.
+ */
+export interface CompletedCharge {
+  subscriptionId: string;
+  cycleDate: string;
+  paymentReferenceId: string | null;
+  amount: number;
+  currency: string;
+  chargedAt: string;
+  /**
+   * The charge result until it is on the result queue, so an attempt that
+   * finds the cycle already charged can publish it instead.
+   */
+  unpublishedResult?: ChargeResult;
+}
+
+// Only has to outlive the gap until the result consumer writes the
+// billing event; the billing_events lookup covers the rest of the cycle.
+const IDEMPOTENCY_TTL_SECONDS = 7 * 24 * 60 * 60;
+const CHARGE_LOCK_TTL_SECONDS = 120;
+
+/**
+ * Guards against charging a subscription twice in the same billing cycle,
+ * whether through a retried job, an operator requeue or a scheduler re-run.
+ * A cycle is identified by the subscription and the local date it was due.
+ */
+@Injectable()
+export class ChargeIdempotencyService {
+  private readonly timezone: string;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly billingEventRepo: BillingEventRepository,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(ChargeIdempotencyService.name);
+    this.timezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+  }
+
+  /** Local due date of the cycle, as YYYY-MM-DD. */
+  getCycleDate(dueAt: Date): string {
+    const { year, month, day } = getZonedParts(dueAt, this.timezone);
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+
+  /** Local due date of the cycle, as stored in `billing_events.cycle_date`. */
+  getCycleDay(dueAt: Date): Date {
+    return new Date(`${this.getCycleDate(dueAt)}T00:00:00Z`);
+  }
+
+  getCycleKey(
+    data: Pick<RenewableSubscriptionPayload, 'subscription_id'>,
+    dueAt: Date,
+  ): string {
+    return `charge:${data.subscription_id}:${this.getCycleDate(dueAt)}`;
+  }
+
+  /**
+   * Returns the charge that already billed this cycle, or null if the cycle
+   * is still unpaid.
+   */
+  async findCompletedCharge(
+    data: Pick<RenewableSubscriptionPayload, 'subscription_id'>,
+    dueAt: Date,
+  ): Promise<CompletedCharge | null> {
+    const key = this.getCycleKey(data, dueAt);
+
+    if (await this.redis.isOperationProcessed(key)) {
+      return this.redis.getOperationResult<CompletedCharge>(key);
+    }
+
+    // Covers charges whose Redis marker expired or was never written.
+    const event = await this.billingEventRepo.findSuccessfulRenewalForCycle(
+      data.subscription_id,
+      this.getCycleDay(dueAt),
+      dueAt,
+    );
+    if (!event) return null;
+
+    const completed: CompletedCharge = {
+      subscriptionId: data.subscription_id,
+      cycleDate: this.getCycleDate(dueAt),
+      paymentReferenceId: event.payment_reference_id,
+      amount: event.amount.toNumber(),
+      currency: event.currency,
+      chargedAt: event.created_at.toISOString(),
+    };
+    await this.redis.markOperationProcessed(
+      key,
+      completed,
+      IDEMPOTENCY_TTL_SECONDS,
+    );
+
+    return completed;
+  }
+
+  async markCharged(
+    data: Pick<RenewableSubscriptionPayload, 'subscription_id'>,
+    dueAt: Date,
+    charge: Omit<CompletedCharge, 'subscriptionId' | 'cycleDate'>,
+  ): Promise<CompletedCharge> {
+    const key = this.getCycleKey(data, dueAt);
+    const completed: CompletedCharge = {
+      subscriptionId: data.subscription_id,
+      cycleDate: this.getCycleDate(dueAt),
+      ...charge,
+    };
+
+    await this.redis.markOperationProcessed(
+      key,
+      completed,
+      IDEMPOTENCY_TTL_SECONDS,
+    );
+
+    return completed;
+  }
+
+  /**
+   * Drops the stored result once it has been published.
+   */
+  async markPublished(
+    data: Pick<RenewableSubscriptionPayload, 'subscription_id'>,
+    dueAt: Date,
+    completed: CompletedCharge,
+  ): Promise<CompletedCharge> {
+    const published = { ...completed };
+    delete published.unpublishedResult;
+
+    await this.redis.markOperationProcessed(
+      this.getCycleKey(data, dueAt),
+      published,
+      IDEMPOTENCY_TTL_SECONDS,
+    );
+
+    return published;
+  }
+
+  /**
+   * Serializes concurrent attempts on the same cycle. Returns the lock token,
+   * or null when another attempt is already charging it.
+   */
+  async lockCycle(
+    data: Pick<RenewableSubscriptionPayload, 'subscription_id'>,
+    dueAt: Date,
+  ): Promise<string | null> {
+    return this.redis.acquireLock(
+      `lock:${this.getCycleKey(data, dueAt)}`,
+      CHARGE_LOCK_TTL_SECONDS,
+      1,
+    );
+  }
+
+  async unlockCycle(
+    data: Pick<RenewableSubscriptionPayload, 'subscription_id'>,
+    dueAt: Date,
+    token: string,
+  ): Promise<void> {
+    await this.redis.releaseLock(
+      `lock:${this.getCycleKey(data, dueAt)}`,
+      token,
+    );
+  }
+}
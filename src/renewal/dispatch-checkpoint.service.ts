@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from 'src/common/redis/redis.service';
+import { getZonedParts } from 'src/common/utils/timezone.util';
+import { DISPATCH_RUN_STATUS, DispatchRunStatus } from './renewal.constants';
+
+/**
+ * Progress of one day's renewal dispatch, persisted after every batch.
+ */
+export interface DispatchCheckpoint {
+  runDate: string;
+  status: DispatchRunStatus;
+  /** Last `subscriptions.id` dispatched, as a string since it is a BigInt. */
+  cursor: string | null;
+  batches: number;
+  dispatched: number;
+  skipped: number;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  lastError: string | null;
+}
+
+const CHECKPOINT_KEY_PREFIX = 'renewal_dispatch:checkpoint';
+const CHECKPOINT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class DispatchCheckpointService {
+  private readonly timezone: string;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    this.timezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+  }
+
+  /** Local date a run belongs to, as YYYY-MM-DD. */
+  getRunDate(now: Date = new Date()): string {
+    const { year, month, day } = getZonedParts(now, this.timezone);
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+
+  async get(runDate: string): Promise<DispatchCheckpoint | null> {
+    return this.redis.get<DispatchCheckpoint>(this.key(runDate));
+  }
+
+  /**
+   * Most recent run within the checkpoint retention period.
+   */
+  async getLatest(): Promise<DispatchCheckpoint | null> {
+    const now = Date.now();
+
+    for (
+      let daysAgo = 0;
+      daysAgo * DAY_MS < CHECKPOINT_TTL_SECONDS * 1000;
+      daysAgo++
+    ) {
+      const checkpoint = await this.get(
+        this.getRunDate(new Date(now - daysAgo * DAY_MS)),
+      );
+      if (checkpoint) return checkpoint;
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns the run's existing checkpoint, or a fresh one if it never started.
+   */
+  async getOrStart(runDate: string): Promise<DispatchCheckpoint> {
+    const existing = await this.get(runDate);
+    if (existing) return existing;
+
+    return this.start(runDate);
+  }
+
+  /**
+   * Starts the run over from the first subscription.
+   */
+  async start(runDate: string): Promise<DispatchCheckpoint> {
+    const now = new Date().toISOString();
+    const checkpoint: DispatchCheckpoint = {
+      runDate,
+      status: DISPATCH_RUN_STATUS.RUNNING,
+      cursor: null,
+      batches: 0,
+      dispatched: 0,
+      skipped: 0,
+      startedAt: now,
+      updatedAt: now,
+      finishedAt: null,
+      lastError: null,
+    };
+    await this.save(checkpoint);
+
+    return checkpoint;
+  }
+
+  async save(checkpoint: DispatchCheckpoint): Promise<void> {
+    await this.redis.set(
+      this.key(checkpoint.runDate),
+      { ...checkpoint, updatedAt: new Date().toISOString() },
+      CHECKPOINT_TTL_SECONDS,
+    );
+  }
+
+  private key(runDate: string): string {
+    return `${CHECKPOINT_KEY_PREFIX}:${runDate}`;
+  }
+}
@@ -0,0 +1,173 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { MetricsService } from 'src/common/metrics/metrics.service';
+import { BillingEventRepository } from 'src/database/billing-event.repository';
+import {
+  RenewableSubscriptionPayload,
+  SubscriptionRepository,
+} from 'src/database/subscription.repository';
+import { TransactionService } from 'src/database/transaction.service';
+import { PricingService, ResolvedPricing } from 'src/payment/pricing.service';
+import { calculateRetryAt } from './billing-calendar';
+import { RENEWAL_SKIP_REASON, RenewalSkipReason } from './renewal.constants';
+
+export type DispatchValidationResult =
+  | { valid: true; pricing: ResolvedPricing }
+  | {
+      valid: false;
+      reason: RenewalSkipReason;
+      message: string;
+      pricing?: ResolvedPricing;
+    };
+
+/**
+ * Pre-dispatch checks against the payment channel's capabilities and limits.
+ * Rejected subscriptions are not queued; a SKIPPED billing event records why.
+ */
+@Injectable()
+export class DispatchValidationService {
+  private readonly timezone: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pricingService: PricingService,
+    private readonly billingEventRepo: BillingEventRepository,
+    private readonly subscriptionRepo: SubscriptionRepository,
+    private readonly transactionService: TransactionService,
+    private readonly metrics: MetricsService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(DispatchValidationService.name);
+    this.timezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+  }
+
+  async validate(
+    data: RenewableSubscriptionPayload,
+  ): Promise<DispatchValidationResult> {
+    const channel = data.payment_channels;
+
+    if (channel.is_active === false) {
+      return {
+        valid: false,
+        reason: RENEWAL_SKIP_REASON.CHANNEL_INACTIVE,
+        message: `Payment channel ${channel.code} is inactive.`,
+      };
+    }
+
+    if (channel.supports_subscription === false) {
+      return {
+        valid: false,
+        reason: RENEWAL_SKIP_REASON.SUBSCRIPTION_UNSUPPORTED,
+        message: `Payment channel ${channel.code} does not support subscriptions.`,
+      };
+    }
+
+    const pricing = await this.pricingService.resolve(data);
+    if (!pricing) {
+      return {
+        valid: false,
+        reason: RENEWAL_SKIP_REASON.NO_EFFECTIVE_PRICE,
+        message: `No effective price for plan ${data.plan_id}.`,
+      };
+    }
+
+    // Limits apply to the amount requested from the channel (excluding VAT).
+    // Decimals may arrive as strings from JSON-serialized payloads.
+    const min =
+      channel.min_transaction_amount !== null
+        ? Number(channel.min_transaction_amount)
+        : null;
+    const max =
+      channel.max_transaction_amount !== null
+        ? Number(channel.max_transaction_amount)
+        : null;
+
+    if (min !== null && pricing.amount < min) {
+      return {
+        valid: false,
+        reason: RENEWAL_SKIP_REASON.AMOUNT_BELOW_MIN,
+        message: `Amount ${pricing.amount} is below the ${channel.code} minimum of ${min}.`,
+        pricing,
+      };
+    }
+
+    if (max !== null && pricing.amount > max) {
+      return {
+        valid: false,
+        reason: RENEWAL_SKIP_REASON.AMOUNT_ABOVE_MAX,
+        message: `Amount ${pricing.amount} exceeds the ${channel.code} maximum of ${max}.`,
+        pricing,
+      };
+    }
+
+    return { valid: true, pricing };
+  }
+
+  /**
+   * Records a renewal that was never attempted as a SKIPPED billing event,
+   * and moves `next_billing_at` to the next day so the subscription is
+   * screened again once the cause is fixed. The status does not change, so
+   * no status change row is written.
+   */
+  async recordSkip(
+    data: RenewableSubscriptionPayload,
+    reason: RenewalSkipReason,
+    message: string,
+    pricing?: ResolvedPricing,
+  ): Promise<void> {
+    const now = new Date();
+    // Job payloads are JSON-serialized, so dates may arrive as strings.
+    const nextBillingAt = calculateRetryAt({
+      dueAt: data.next_billing_at ? new Date(data.next_billing_at) : now,
+      timeZone: this.timezone,
+      now,
+    });
+
+    await this.transactionService.executeInTransaction(
+      async (tx: Prisma.TransactionClient) => {
+        await this.billingEventRepo.createMany(
+          [
+            {
+              subscription_id: data.subscription_id,
+              merchant_id: data.merchant_id,
+              product_id: data.product_id,
+              plan_id: data.plan_id,
+              payment_channel_id: data.payment_channel_id,
+              msisdn: data.msisdn,
+              event_type: 'RENEWAL',
+              status: 'SKIPPED',
+              amount: pricing?.amount ?? 0,
+              amount_with_vat: pricing?.amountWithVat,
+              plan_pricing_id: pricing?.planPricingId,
+              currency:
+                pricing?.currency ?? data.plan_pricing?.currency ?? 'BDT',
+              response_code: reason,
+              response_message: message,
+            },
+          ],
+          tx,
+        );
+
+        await this.subscriptionRepo.update(
+          { subscription_id: data.subscription_id },
+          { next_billing_at: nextBillingAt },
+          tx,
+        );
+      },
+    );
+
+    this.metrics.dispatchSkipped.inc({ reason });
+    this.logger.warn({
+      msg: 'Renewal skipped',
+      subscriptionId: data.subscription_id,
+      reason,
+      detail: message,
+      nextBillingAt: nextBillingAt.toISOString(),
+    });
+  }
+}
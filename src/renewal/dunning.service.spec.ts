@@ -0,0 +1,150 @@
+import { subscription_status } from '@prisma/client';
+import { DunningService } from './dunning.service';
+
+/** Builds the UTC instant for a wall-clock time in Dhaka (UTC+6, no DST). */
+const dhaka = (isoLocal: string) => new Date(`${isoLocal}+06:00`);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_AT = dhaka('2026-10-19T09:00:00');
+const NOW = dhaka('2026-10-19T09:05:00');
+
+const buildSubscription = (
+  status: subscription_status,
+  gracePeriodEndsAt: Date | null = null,
+) => ({
+  status,
+  grace_period_ends_at: gracePeriodEndsAt,
+  next_billing_at: DUE_AT,
+  onboarded_at: dhaka('2026-09-19T09:00:00'),
+  product_plans: { billing_frequency: 'monthly', billing_cycle_days: 30 },
+});
+
+describe('DunningService', () => {
+  let service: DunningService;
+
+  beforeEach(() => {
+    const config: Record<string, unknown> = {
+      'dunning.graceDays': 3,
+      'dunning.suspensionDays': 30,
+      'dunning.terminalStatus': 'EXPIRED',
+      'billing.timezone': 'Asia/Dhaka',
+    };
+    service = new DunningService({
+      get: (key: string, fallback?: unknown) => config[key] ?? fallback,
+    } as never);
+  });
+
+  const evaluate = (
+    subscription: ReturnType<typeof buildSubscription>,
+    success: boolean,
+    now: Date = NOW,
+  ) => service.evaluate(subscription as never, success, now);
+
+  it('moves a successful charge to the next cycle and closes the grace window', () => {
+    expect(
+      evaluate(
+        buildSubscription(
+          'SUSPENDED_PAYMENT_FAILED',
+          dhaka('2026-10-10T09:00:00'),
+        ),
+        true,
+      ),
+    ).toEqual({
+      status: 'ACTIVE',
+      gracePeriodEndsAt: null,
+      nextBillingAt: dhaka('2026-11-19T09:00:00'),
+    });
+  });
+
+  it('opens the grace window on the first failure', () => {
+    expect(evaluate(buildSubscription('ACTIVE'), false)).toEqual({
+      status: 'ACTIVE',
+      gracePeriodEndsAt: new Date(NOW.getTime() + 3 * DAY_MS),
+      nextBillingAt: dhaka('2026-10-20T09:00:00'),
+      reason: 'Grace period started',
+    });
+  });
+
+  it('keeps retrying daily inside the grace window', () => {
+    const gracePeriodEndsAt = dhaka('2026-10-21T09:00:00');
+
+    expect(
+      evaluate(buildSubscription('ACTIVE', gracePeriodEndsAt), false),
+    ).toEqual({
+      status: 'ACTIVE',
+      gracePeriodEndsAt,
+      nextBillingAt: dhaka('2026-10-20T09:00:00'),
+    });
+  });
+
+  it('suspends once the grace window has expired', () => {
+    const gracePeriodEndsAt = dhaka('2026-10-18T09:00:00');
+
+    expect(
+      evaluate(buildSubscription('ACTIVE', gracePeriodEndsAt), false),
+    ).toEqual({
+      status: 'SUSPENDED_PAYMENT_FAILED',
+      gracePeriodEndsAt,
+      nextBillingAt: dhaka('2026-10-20T09:00:00'),
+      reason: 'Grace period expired',
+      notificationEventType: 'subscription.suspend',
+    });
+  });
+
+  it('does not notify again for an already suspended subscription', () => {
+    expect(
+      evaluate(
+        buildSubscription(
+          'SUSPENDED_PAYMENT_FAILED',
+          dhaka('2026-10-18T09:00:00'),
+        ),
+        false,
+      ),
+    ).not.toHaveProperty('notificationEventType');
+  });
+
+  it('starts the suspension clock for suspensions without a grace window', () => {
+    expect(
+      evaluate(buildSubscription('SUSPENDED_PAYMENT_FAILED'), false),
+    ).toEqual({
+      status: 'SUSPENDED_PAYMENT_FAILED',
+      gracePeriodEndsAt: NOW,
+      nextBillingAt: dhaka('2026-10-20T09:00:00'),
+      reason: 'Suspension period started',
+    });
+  });
+
+  it('ends the subscription once the suspension period has elapsed', () => {
+    const gracePeriodEndsAt = new Date(NOW.getTime() - 30 * DAY_MS);
+
+    expect(
+      evaluate(
+        buildSubscription('SUSPENDED_PAYMENT_FAILED', gracePeriodEndsAt),
+        false,
+      ),
+    ).toEqual({
+      status: 'EXPIRED',
+      gracePeriodEndsAt,
+      nextBillingAt: null,
+      reason: 'Suspension period elapsed',
+      notificationEventType: 'subscription.cancel',
+    });
+  });
+
+  it('leaves subscriptions that left the renewal cycle alone', () => {
+    expect(evaluate(buildSubscription('CANCELLED'), true)).toBeNull();
+    expect(evaluate(buildSubscription('CANCELLED'), false)).toBeNull();
+    expect(evaluate(buildSubscription('EXPIRED'), false)).toBeNull();
+  });
+
+  it('accepts dates serialized into the job payload', () => {
+    const subscription = {
+      ...buildSubscription('ACTIVE'),
+      next_billing_at: DUE_AT.toISOString(),
+    };
+
+    expect(
+      service.evaluate(subscription as never, false, NOW)?.nextBillingAt,
+    ).toEqual(dhaka('2026-10-20T09:00:00'));
+  });
+});
@@ -0,0 +1,159 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { subscription_status } from '@prisma/client';
+import {
+  RENEWABLE_STATUSES,
+  RenewableSubscriptionPayload,
+} from 'src/database/subscription.repository';
+import { NotificationPayload } from 'src/event-publisher/event-publisher.service';
+import { calculateNextBillingAt, calculateRetryAt } from './billing-calendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DunningTransition {
+  status: subscription_status;
+  gracePeriodEndsAt: Date | null;
+  /** Null once the subscription leaves the renewal cycle for good. */
+  nextBillingAt: Date | null;
+  /** Why the lifecycle moved, recorded on the status change audit row. */
+  reason?: string;
+  /** Lifecycle notification to emit in addition to renew.success/fail. */
+  notificationEventType?: Extract<
+    NotificationPayload['eventType'],
+    'subscription.suspend' | 'subscription.cancel'
+  >;
+}
+
+/**
+ * Dunning lifecycle for failed renewals:
+ *
+ * ACTIVE --first failure--> ACTIVE (grace window opened, retried daily)
+ *        --grace expired--> SUSPENDED_PAYMENT_FAILED (retried daily)
+ *        --suspension days elapsed--> EXPIRED | CANCELLED
+ *
+ * Any successful charge returns the subscription to ACTIVE and closes the
+ * grace window. Subscriptions that left the cycle while a charge was in
+ * flight, e.g. cancelled by an operator callback, are not moved at all.
+ */
+@Injectable()
+export class DunningService {
+  private readonly graceDays: number;
+  private readonly suspensionDays: number;
+  private readonly terminalStatus: Extract<
+    subscription_status,
+    'EXPIRED' | 'CANCELLED'
+  >;
+  private readonly timezone: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.graceDays = this.configService.get<number>('dunning.graceDays', 3);
+    this.suspensionDays = this.configService.get<number>(
+      'dunning.suspensionDays',
+      30,
+    );
+    this.terminalStatus = this.configService.get(
+      'dunning.terminalStatus',
+      'EXPIRED',
+    );
+    this.timezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+  }
+
+  evaluate(
+    subscription: Pick<
+      RenewableSubscriptionPayload,
+      | 'status'
+      | 'grace_period_ends_at'
+      | 'next_billing_at'
+      | 'onboarded_at'
+      | 'product_plans'
+    >,
+    success: boolean,
+    now: Date = new Date(),
+  ): DunningTransition | null {
+    if (!RENEWABLE_STATUSES.includes(subscription.status)) return null;
+
+    // Job payloads are JSON-serialized, so dates may arrive as strings.
+    const dueAt = subscription.next_billing_at
+      ? new Date(subscription.next_billing_at)
+      : now;
+
+    if (success) {
+      return {
+        status: 'ACTIVE',
+        gracePeriodEndsAt: null,
+        nextBillingAt: calculateNextBillingAt({
+          dueAt,
+          plan: subscription.product_plans,
+          timeZone: this.timezone,
+          anchorAt: subscription.onboarded_at
+            ? new Date(subscription.onboarded_at)
+            : null,
+          now,
+        }),
+      };
+    }
+
+    const retryTomorrow = calculateRetryAt({
+      dueAt,
+      timeZone: this.timezone,
+      now,
+    });
+    const gracePeriodEndsAt = subscription.grace_period_ends_at
+      ? new Date(subscription.grace_period_ends_at)
+      : null;
+
+    if (!gracePeriodEndsAt) {
+      if (subscription.status === 'SUSPENDED_PAYMENT_FAILED') {
+        // Suspended before grace tracking existed: start the suspension clock now.
+        return {
+          status: 'SUSPENDED_PAYMENT_FAILED',
+          gracePeriodEndsAt: now,
+          nextBillingAt: retryTomorrow,
+          reason: 'Suspension period started',
+        };
+      }
+
+      return {
+        status: 'ACTIVE',
+        gracePeriodEndsAt: new Date(now.getTime() + this.graceDays * DAY_MS),
+        nextBillingAt: retryTomorrow,
+        reason: 'Grace period started',
+      };
+    }
+
+    const terminalAt = new Date(
+      gracePeriodEndsAt.getTime() + this.suspensionDays * DAY_MS,
+    );
+
+    if (now.getTime() >= terminalAt.getTime()) {
+      return {
+        status: this.terminalStatus,
+        gracePeriodEndsAt,
+        nextBillingAt: null,
+        reason: 'Suspension period elapsed',
+        notificationEventType: 'subscription.cancel',
+      };
+    }
+
+    if (now.getTime() >= gracePeriodEndsAt.getTime()) {
+      return {
+        status: 'SUSPENDED_PAYMENT_FAILED',
+        gracePeriodEndsAt,
+        nextBillingAt: retryTomorrow,
+        reason: 'Grace period expired',
+        ...(subscription.status !== 'SUSPENDED_PAYMENT_FAILED' && {
+          notificationEventType: 'subscription.suspend' as const,
+        }),
+      };
+    }
+
+    return {
+      status: subscription.status,
+      gracePeriodEndsAt,
+      nextBillingAt: retryTomorrow,
+    };
+  }
+}
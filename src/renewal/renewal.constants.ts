@@ -1,5 +1,41 @@
-export const RENEWAL_QUEUES = {
-  GP: 'renewal_gp',
-  ROBI: 'renewal_robi',
-  ROBI_MIFE: 'renewal_robi_mife',
+/**
+ * BullMQ queue that holds renewal jobs for the given `payment_channels.code`.
+ */
+export const getRenewalQueueName = (operatorCode: string) =>
+  `renewal_${operatorCode.toLowerCase()}`;
+
+/**
+ * Job id of a same-day retry. BullMQ rejects custom ids containing ':'.
+ */
+export const getRetryJobId = (subscriptionId: string, attempt: number) =>
+  `${subscriptionId}-retry-${attempt}`;
+
+/** `subscription_status_changes.event_source` for rows written by this service. */
+export const STATUS_CHANGE_EVENT_SOURCE = 'RENEWAL_SERVICE';
+
+/**
+ * Why a renewal was not attempted, stored as `billing_events.response_code`
+ * on SKIPPED rows (max 20 chars).
+ */
+export const RENEWAL_SKIP_REASON = {
+  CHANNEL_INACTIVE: 'CHANNEL_INACTIVE', // payment_channels.is_active is false
+  SUBSCRIPTION_UNSUPPORTED: 'SUBS_NOT_SUPPORTED', // Channel cannot renew subscriptions
+  NO_EFFECTIVE_PRICE: 'NO_EFFECTIVE_PRICE', // No plan_pricing row applies today
+  AMOUNT_BELOW_MIN: 'AMOUNT_BELOW_MIN', // Below min_transaction_amount
+  AMOUNT_ABOVE_MAX: 'AMOUNT_ABOVE_MAX', // Above max_transaction_amount
+  BLACKLISTED: 'BLACKLISTED', // MSISDN, merchant or product is blacklisted
 } as const;
+
+export type RenewalSkipReason =
+  (typeof RENEWAL_SKIP_REASON)[keyof typeof RENEWAL_SKIP_REASON];
+
+/**
+ * State of a daily dispatch run, kept in its Redis checkpoint.
+ */
+export const DISPATCH_RUN_STATUS = {
+  RUNNING: 'RUNNING', // Started or interrupted; resumed from the cursor
+  COMPLETED: 'COMPLETED', // Every renewable subscription was dispatched
+} as const;
+
+export type DispatchRunStatus =
+  (typeof DISPATCH_RUN_STATUS)[keyof typeof DISPATCH_RUN_STATUS];
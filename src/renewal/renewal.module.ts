@@ -1,36 +1,54 @@
 import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
+import { BlacklistModule } from 'src/blacklist/blacklist.module';
 import { EventPublisherModule } from 'src/event-publisher/event-publisher.module';
+import { MerchantWebhookModule } from 'src/merchant-webhook/merchant-webhook.module';
+import { OPERATOR_ADAPTERS } from 'src/payment/operator-adapter.registry';
 import { PaymentModule } from 'src/payment/payment.module';
-import { RenewalGpProcessor } from './renewal-gp.processor';
-import { RenewalRobiProcessor } from './renewal-robi.processor';
+import { ChargeIdempotencyService } from './charge-idempotency.service';
+import { DispatchCheckpointService } from './dispatch-checkpoint.service';
+import { DispatchValidationService } from './dispatch-validation.service';
+import { DunningService } from './dunning.service';
+import { getRenewalQueueName } from './renewal.constants';
+import { RenewalProcessor } from './renewal.processor';
 import { RenewalScheduler } from './renewal.schedular';
 import { RenewalService } from './renewal.service';
-
-export const RENEWAL_QUEUES = {
-  GP: 'renewal_gp',
-  ROBI: 'renewal_robi',
-  ROBI_MIFE: 'renewal_robi_mife',
-};
+import { ResultConsumerScheduler } from './result-consumer.scheduler';
+import { ResultQueueService } from './result-queue.service';
+import { RetryPolicyService } from './retry-policy.service';
 
 @Module({
   imports: [
     BullModule.registerQueue(
-      { name: RENEWAL_QUEUES.GP },
-      { name: RENEWAL_QUEUES.ROBI },
-      { name: RENEWAL_QUEUES.ROBI_MIFE },
+      ...OPERATOR_ADAPTERS.map(({ code }) => ({
+        name: getRenewalQueueName(code),
+      })),
     ),
     ScheduleModule.forRoot(),
     PaymentModule,
     EventPublisherModule,
+    BlacklistModule,
+    MerchantWebhookModule,
   ],
   providers: [
     RenewalService,
-    RenewalGpProcessor,
-    RenewalRobiProcessor,
+    RetryPolicyService,
+    DunningService,
+    DispatchValidationService,
+    DispatchCheckpointService,
+    ChargeIdempotencyService,
+    RenewalProcessor,
+    RenewalScheduler,
+    ResultQueueService,
+    ResultConsumerScheduler,
+  ],
+  exports: [
+    RenewalService,
     RenewalScheduler,
+    DispatchCheckpointService,
+    ResultQueueService,
+    ChargeIdempotencyService,
   ],
-  exports: [RenewalService],
 })
 export class RenewalModule {}
@@ -0,0 +1,259 @@
+import { Job, Worker } from 'bullmq';
+import { RegisteredOperatorAdapter } from 'src/payment/operator-adapter.registry';
+import { RenewalProcessor } from './renewal.processor';
+import { RenewalJobData } from './renewal.service';
+
+jest.mock('uuid', () => ({ v4: () => 'payment-ref-1' }));
+
+const SUBSCRIPTION_ID = 'sub_123';
+
+const buildJob = (attempt?: number) =>
+  ({
+    queueName: 'renewal_gp',
+    timestamp: Date.now(),
+    data: {
+      subscriptionId: SUBSCRIPTION_ID,
+      attempt,
+      data: {
+        subscription_id: SUBSCRIPTION_ID,
+        next_billing_at: new Date('2026-10-19T00:00:00Z'),
+      },
+    },
+  }) as unknown as Job<RenewalJobData>;
+
+describe('RenewalProcessor', () => {
+  let queue: { name: string; add: jest.Mock };
+  let renewalService: { getQueue: jest.Mock; publishChargeResult: jest.Mock };
+  let retryPolicyService: { resolve: jest.Mock; decide: jest.Mock };
+  let subscriptionRepo: { findRenewalState: jest.Mock };
+  let chargeIdempotency: {
+    findCompletedCharge: jest.Mock;
+    markCharged: jest.Mock;
+    markPublished: jest.Mock;
+  };
+  let charge: jest.Mock;
+  let operator: RegisteredOperatorAdapter;
+  let processor: RenewalProcessor;
+
+  beforeEach(() => {
+    queue = { name: 'renewal_gp', add: jest.fn().mockResolvedValue({}) };
+    renewalService = {
+      getQueue: jest.fn().mockReturnValue(queue),
+      publishChargeResult: jest.fn().mockResolvedValue(undefined),
+    };
+    retryPolicyService = {
+      resolve: jest.fn().mockReturnValue({ name: 'GP' }),
+      decide: jest.fn().mockReturnValue({
+        retry: true,
+        nextAttempt: 2,
+        retryAt: new Date(),
+        delayMs: 60_000,
+      }),
+    };
+    charge = jest.fn().mockResolvedValue({
+      httpStatus: 402,
+      responseDuration: 120,
+      requestPayload: {},
+    });
+    operator = {
+      code: 'GP',
+      adapter: {
+        buildChargeRequest: jest.fn().mockReturnValue({}),
+        charge,
+        classifyResult: jest.fn().mockReturnValue({
+          success: false,
+          errorCategory: 'INSUFFICIENT_BALANCE',
+          message: 'Insufficient balance',
+        }),
+      },
+    } as unknown as RegisteredOperatorAdapter;
+
+    subscriptionRepo = {
+      findRenewalState: jest
+        .fn()
+        .mockResolvedValue({ status: 'ACTIVE', auto_renew: true }),
+    };
+    chargeIdempotency = {
+      findCompletedCharge: jest.fn().mockResolvedValue(null),
+      lockCycle: jest.fn().mockResolvedValue('lock-token'),
+      unlockCycle: jest.fn().mockResolvedValue(undefined),
+      getCycleDate: jest.fn().mockReturnValue('2026-10-19'),
+      markCharged: jest
+        .fn()
+        .mockImplementation((_data, _dueAt, charge: object) =>
+          Promise.resolve({ cycleDate: '2026-10-19', ...charge }),
+        ),
+      markPublished: jest
+        .fn()
+        .mockImplementation((_data, _dueAt, completed: object) =>
+          Promise.resolve(completed),
+        ),
+    } as typeof chargeIdempotency;
+    const metrics = {
+      chargeAttempts: { inc: jest.fn() },
+      chargeResults: { inc: jest.fn() },
+      gatewayLatency: { observe: jest.fn() },
+    };
+    const logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+
+    processor = new RenewalProcessor(
+      renewalService as never,
+      {} as never,
+      retryPolicyService as never,
+      {
+        resolve: jest.fn().mockResolvedValue({ amount: 50, currency: 'BDT' }),
+      } as never,
+      { recordSkip: jest.fn() } as never,
+      { screen: jest.fn().mockResolvedValue(null) } as never,
+      subscriptionRepo as never,
+      chargeIdempotency as never,
+      {
+        acquire: jest.fn().mockResolvedValue({ acquired: true }),
+      } as never,
+      {
+        permit: jest.fn().mockResolvedValue({ allowed: true }),
+        record: jest
+          .fn()
+          .mockResolvedValue({ state: 'CLOSED', retryAfterMs: 0 }),
+      } as never,
+      metrics as never,
+      logger as never,
+    );
+  });
+
+  const run = (job: Job<RenewalJobData>) =>
+    processor.process(operator, job, {} as Worker<RenewalJobData>, 'token');
+
+  it('requeues a failed charge under a colon-free job id', async () => {
+    await run(buildJob());
+
+    expect(queue.add).toHaveBeenCalledTimes(1);
+    const [, data, options] = queue.add.mock.calls[0] as [
+      string,
+      RenewalJobData,
+      { jobId: string; delay: number },
+    ];
+    expect(options.jobId).toBe(`${SUBSCRIPTION_ID}-retry-2`);
+    expect(options.jobId).not.toContain(':');
+    expect(options.delay).toBe(60_000);
+    expect(data.attempt).toBe(2);
+  });
+
+  it('publishes the failed result before requeuing', async () => {
+    await run(buildJob());
+
+    expect(renewalService.publishChargeResult).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subscriptionId: SUBSCRIPTION_ID,
+        success: false,
+        attempt: 1,
+      }),
+    );
+    expect(
+      renewalService.publishChargeResult.mock.invocationCallOrder[0],
+    ).toBeLessThan(queue.add.mock.invocationCallOrder[0]);
+  });
+
+  it('keeps the published result when requeuing fails', async () => {
+    queue.add.mockRejectedValue(new Error('Redis unavailable'));
+
+    await expect(run(buildJob())).rejects.toThrow('Redis unavailable');
+    expect(renewalService.publishChargeResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not requeue once the retry policy gives up', async () => {
+    retryPolicyService.decide.mockReturnValue({
+      retry: false,
+      reason: 'Daily attempt limit reached',
+    });
+
+    await run(buildJob(2));
+
+    expect(queue.add).not.toHaveBeenCalled();
+    expect(renewalService.publishChargeResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not charge a subscription cancelled after dispatch', async () => {
+    subscriptionRepo.findRenewalState.mockResolvedValue({
+      status: 'CANCELLED',
+      auto_renew: false,
+    });
+
+    await run(buildJob());
+
+    expect(charge).not.toHaveBeenCalled();
+    expect(renewalService.publishChargeResult).not.toHaveBeenCalled();
+    expect(queue.add).not.toHaveBeenCalled();
+  });
+
+  describe('successful charges', () => {
+    beforeEach(() => {
+      const classifyResult = jest.fn().mockReturnValue({ success: true });
+      operator.adapter.classifyResult = classifyResult;
+      charge.mockResolvedValue({
+        httpStatus: 200,
+        responseDuration: 80,
+        requestPayload: {},
+      });
+    });
+
+    it('keeps the result with the cycle marker until it is published', async () => {
+      await run(buildJob());
+
+      const [, , marked] = chargeIdempotency.markCharged.mock.calls[0] as [
+        unknown,
+        Date,
+        { unpublishedResult: { resultId: string } },
+      ];
+      expect(renewalService.publishChargeResult).toHaveBeenCalledWith(
+        marked.unpublishedResult,
+      );
+      expect(chargeIdempotency.markPublished).toHaveBeenCalledTimes(1);
+      expect(
+        chargeIdempotency.markCharged.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        renewalService.publishChargeResult.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('leaves the result stored when publishing fails', async () => {
+      renewalService.publishChargeResult.mockRejectedValue(
+        new Error('Redis unavailable'),
+      );
+
+      await expect(run(buildJob())).rejects.toThrow('Redis unavailable');
+      expect(chargeIdempotency.markCharged).toHaveBeenCalledTimes(1);
+      expect(chargeIdempotency.markPublished).not.toHaveBeenCalled();
+    });
+  });
+
+  it('publishes the stored result of a charged cycle instead of charging again', async () => {
+    const stored = { resultId: 'result-1', subscriptionId: SUBSCRIPTION_ID };
+    chargeIdempotency.findCompletedCharge.mockResolvedValue({
+      cycleDate: '2026-10-19',
+      unpublishedResult: stored,
+    });
+
+    await run(buildJob());
+
+    expect(charge).not.toHaveBeenCalled();
+    expect(renewalService.publishChargeResult).toHaveBeenCalledWith(stored);
+    expect(chargeIdempotency.markPublished).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing for a cycle already charged and published', async () => {
+    chargeIdempotency.findCompletedCharge.mockResolvedValue({
+      cycleDate: '2026-10-19',
+    });
+
+    await run(buildJob());
+
+    expect(charge).not.toHaveBeenCalled();
+    expect(renewalService.publishChargeResult).not.toHaveBeenCalled();
+  });
+});
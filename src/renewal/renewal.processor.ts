@@ -0,0 +1,380 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { DelayedError, Job, Worker } from 'bullmq';
+import { PinoLogger } from 'nestjs-pino';
+import { BlacklistService } from 'src/blacklist/blacklist.service';
+import { MetricsService } from 'src/common/metrics/metrics.service';
+import {
+  RENEWABLE_STATUSES,
+  SubscriptionRepository,
+} from 'src/database/subscription.repository';
+import {
+  OperatorAdapterRegistry,
+  RegisteredOperatorAdapter,
+} from 'src/payment/operator-adapter.registry';
+import { OperatorCircuitBreaker } from 'src/payment/operator-circuit-breaker.service';
+import { OperatorRateLimiter } from 'src/payment/operator-rate-limiter.service';
+import {
+  CHARGE_ERROR_CATEGORY,
+  ChargeErrorCategory,
+} from 'src/payment/constants/charge-error-category.constants';
+import { CIRCUIT_STATE } from 'src/payment/constants/circuit-state.constants';
+import { PricingService, ResolvedPricing } from 'src/payment/pricing.service';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChargeIdempotencyService,
+  CompletedCharge,
+} from './charge-idempotency.service';
+import { DispatchValidationService } from './dispatch-validation.service';
+import { getRetryJobId, RENEWAL_SKIP_REASON } from './renewal.constants';
+import {
+  ChargeResult,
+  RenewalJobData,
+  RenewalService,
+} from './renewal.service';
+import { RetryPolicy, RetryPolicyService } from './retry-policy.service';
+
+/**
+ * Runs one BullMQ worker per registered operator adapter and drives the
+ * generic charge flow: build payload, charge, classify, publish result.
+ */
+@Injectable()
+export class RenewalProcessor implements OnModuleInit, OnModuleDestroy {
+  private readonly workers: Worker<RenewalJobData>[] = [];
+
+  constructor(
+    private readonly renewalService: RenewalService,
+    private readonly operatorAdapters: OperatorAdapterRegistry,
+    private readonly retryPolicyService: RetryPolicyService,
+    private readonly pricingService: PricingService,
+    private readonly dispatchValidation: DispatchValidationService,
+    private readonly blacklistService: BlacklistService,
+    private readonly subscriptionRepo: SubscriptionRepository,
+    private readonly chargeIdempotency: ChargeIdempotencyService,
+    private readonly rateLimiter: OperatorRateLimiter,
+    private readonly circuitBreaker: OperatorCircuitBreaker,
+    private readonly metrics: MetricsService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(RenewalProcessor.name);
+  }
+
+  onModuleInit() {
+    for (const operator of this.operatorAdapters.list()) {
+      const queue = this.renewalService.getQueue(operator.code);
+      if (!queue) continue;
+
+      const worker: Worker<RenewalJobData> = new Worker<RenewalJobData>(
+        queue.name,
+        (job, token) => this.process(operator, job, worker, token),
+        {
+          connection: queue.opts.connection,
+          prefix: queue.opts.prefix,
+          concurrency: operator.concurrency,
+        },
+      );
+
+      worker.on('failed', (job, error) => {
+        this.logger.error(
+          `Job ${job?.id} for Sub ID ${job?.data.subscriptionId} failed in ${queue.name} with error: ${error.message}`,
+        );
+      });
+
+      this.workers.push(worker);
+    }
+  }
+
+  async onModuleDestroy() {
+    await Promise.all(this.workers.map((worker) => worker.close()));
+  }
+
+  /**
+   * Worker logic for attempting subscription charging via the operator adapter.
+   */
+  async process(
+    operator: RegisteredOperatorAdapter,
+    job: Job<RenewalJobData>,
+    worker: Worker<RenewalJobData>,
+    token?: string,
+  ): Promise<CompletedCharge | undefined> {
+    const { subscriptionId, data } = job.data;
+    const queueName = job.queueName;
+    const attempt = job.data.attempt ?? 1;
+    // The cycle is the one the job was dispatched for, even if the
+    // subscription has moved on since.
+    const dueAt = new Date(data.next_billing_at ?? job.timestamp);
+
+    this.logger.info(
+      `[START] ${queueName} processing Sub ID: ${subscriptionId} (attempt ${attempt}).`,
+    );
+
+    const completed = await this.chargeIdempotency.findCompletedCharge(
+      data,
+      dueAt,
+    );
+    if (completed?.unpublishedResult) {
+      // Charged, but the result never reached the queue: publish it now.
+      // It keeps its resultId, so the consumer applies it only once.
+      await this.renewalService.publishChargeResult(
+        completed.unpublishedResult,
+      );
+      this.logger.warn(
+        `[REPUBLISH] ${queueName} Sub ID: ${subscriptionId} was charged for cycle ${completed.cycleDate}; published its stored result.`,
+      );
+      return this.chargeIdempotency.markPublished(data, dueAt, completed);
+    }
+    if (completed) {
+      this.logger.warn(
+        `[DUPLICATE] ${queueName} Sub ID: ${subscriptionId} already charged for cycle ${completed.cycleDate} (ref ${completed.paymentReferenceId}).`,
+      );
+      return completed;
+    }
+
+    // The job carries a dispatch-time snapshot; the subscription may have
+    // been cancelled since, e.g. by an operator callback.
+    const current =
+      await this.subscriptionRepo.findRenewalState(subscriptionId);
+    if (!current?.auto_renew || !RENEWABLE_STATUSES.includes(current.status)) {
+      this.logger.warn(
+        `[SKIP] ${queueName} Sub ID: ${subscriptionId} is no longer renewable (status ${current?.status ?? 'missing'}).`,
+      );
+      return;
+    }
+
+    // Screened on every attempt so entries added mid-day stop retries too.
+    const blacklistHit = await this.blacklistService.screen(data);
+    if (blacklistHit) {
+      await this.dispatchValidation.recordSkip(
+        data,
+        RENEWAL_SKIP_REASON.BLACKLISTED,
+        `${blacklistHit.listType} ${blacklistHit.value} is blacklisted${blacklistHit.reason ? ` (${blacklistHit.reason})` : ''}.`,
+      );
+      return;
+    }
+
+    const pricing = await this.pricingService.resolve(data);
+
+    if (!pricing) {
+      // The price row may have expired between dispatch and charge time.
+      await this.dispatchValidation.recordSkip(
+        data,
+        RENEWAL_SKIP_REASON.NO_EFFECTIVE_PRICE,
+        `No effective price for plan ${data.plan_id}.`,
+      );
+      return;
+    }
+
+    const cycleLock = await this.chargeIdempotency.lockCycle(data, dueAt);
+    if (!cycleLock) {
+      this.logger.warn(
+        `[SKIP] ${queueName} Sub ID: ${subscriptionId} is already being charged by another attempt.`,
+      );
+      return;
+    }
+
+    try {
+      return await this.charge(operator, job, worker, token, pricing, dueAt);
+    } finally {
+      await this.chargeIdempotency.unlockCycle(data, dueAt, cycleLock);
+    }
+  }
+
+  private async charge(
+    operator: RegisteredOperatorAdapter,
+    job: Job<RenewalJobData>,
+    worker: Worker<RenewalJobData>,
+    token: string | undefined,
+    pricing: ResolvedPricing,
+    dueAt: Date,
+  ): Promise<CompletedCharge | undefined> {
+    const { subscriptionId, data } = job.data;
+    const queueName = job.queueName;
+    const attempt = job.data.attempt ?? 1;
+
+    const paymentReferenceId = uuidv4();
+    const chargeRequest = operator.adapter.buildChargeRequest(
+      data,
+      paymentReferenceId,
+      pricing,
+    );
+
+    if (!chargeRequest) {
+      this.logger.warn(
+        `[SKIP] ${queueName} Sub ID: ${subscriptionId} has no charging configuration.`,
+      );
+      return;
+    }
+
+    const rateLimit = await this.rateLimiter.acquire(operator.code);
+    if (!rateLimit.acquired) {
+      // Puts the job back in the queue and pauses this worker until the
+      // operator has capacity again.
+      await worker.rateLimit(rateLimit.retryAfterMs);
+      throw Worker.RateLimitError();
+    }
+
+    const circuit = await this.circuitBreaker.permit(operator.code);
+    if (!circuit.allowed) {
+      await this.deferJob(job, token, circuit.retryAfterMs, 'circuit open');
+    }
+
+    let chargeResult: Awaited<ReturnType<typeof operator.adapter.charge>>;
+    this.metrics.chargeAttempts.inc({ operator: operator.code });
+    try {
+      chargeResult = await operator.adapter.charge(chargeRequest);
+    } catch (error) {
+      await this.circuitBreaker.record(operator.code, true);
+      throw error;
+    }
+    const outcome = operator.adapter.classifyResult(chargeResult);
+    const isSuccess = outcome.success === true;
+
+    this.metrics.gatewayLatency.observe(
+      { operator: operator.code },
+      chargeResult.responseDuration / 1000,
+    );
+    this.metrics.chargeResults.inc({
+      operator: operator.code,
+      result: isSuccess ? 'success' : 'failure',
+      error_category: outcome.errorCategory ?? '',
+    });
+
+    const gatewayFailure =
+      !isSuccess && outcome.errorCategory === CHARGE_ERROR_CATEGORY.TRANSIENT;
+    const circuitOutcome = await this.circuitBreaker.record(
+      operator.code,
+      gatewayFailure,
+    );
+
+    if (gatewayFailure && circuitOutcome.state === CIRCUIT_STATE.OPEN) {
+      // The gateway is down, not the subscriber: try again once it
+      // recovers instead of recording a failed renewal.
+      await this.deferJob(
+        job,
+        token,
+        circuitOutcome.retryAfterMs,
+        'gateway failure tripped the circuit',
+      );
+    }
+
+    const retryPolicy = this.retryPolicyService.resolve(data);
+
+    const result: ChargeResult = {
+      resultId: uuidv4(),
+      subscriptionId,
+      paymentReferenceId,
+      data,
+      timestamp: Date.now(),
+      success: isSuccess,
+      error: chargeResult.error,
+      errorCategory: outcome.errorCategory,
+      errorCode: outcome.errorCode,
+      requestPayload: chargeResult.requestPayload,
+      responsePayload: chargeResult.responsePayload,
+      responseDuration: chargeResult.responseDuration,
+      message: outcome.message,
+      httpStatus: chargeResult.httpStatus,
+      attempt,
+      retryPolicy: retryPolicy.name,
+      pricing,
+      cycleDate: this.chargeIdempotency.getCycleDate(dueAt),
+    };
+
+    // Marked before anything else so a retry can never charge this cycle
+    // again. The result is kept with the marker until it is published, so
+    // a retry after a failed publish sends it instead of dropping it.
+    const completed = isSuccess
+      ? await this.chargeIdempotency.markCharged(data, dueAt, {
+          paymentReferenceId,
+          amount: pricing.amount,
+          currency: pricing.currency,
+          chargedAt: new Date().toISOString(),
+          unpublishedResult: result,
+        })
+      : undefined;
+
+    // --- Reporting Logic: Publish result ---
+    await this.renewalService.publishChargeResult(result);
+
+    // Requeue Logic: after publishing, so a requeue error cannot drop the
+    // failed result.
+    if (!isSuccess) {
+      await this.scheduleRetry(
+        operator,
+        job,
+        retryPolicy,
+        attempt,
+        outcome.errorCategory,
+      );
+    }
+
+    this.logger.info(
+      `[END] ${queueName} finished Sub ID: ${subscriptionId}. Status: ${isSuccess ? 'SUCCESS' : `FAILURE (${outcome.errorCategory})`}.`,
+    );
+
+    return completed
+      ? this.chargeIdempotency.markPublished(data, dueAt, completed)
+      : undefined;
+  }
+
+  /**
+   * Moves the job back to its queue's delayed set without counting it as an
+   * attempt.
+   */
+  private async deferJob(
+    job: Job<RenewalJobData>,
+    token: string | undefined,
+    delayMs: number,
+    reason: string,
+  ): Promise<never> {
+    // Spread the deferred jobs so they do not all hit the probe at once.
+    const runAt = Date.now() + delayMs + Math.floor(Math.random() * 5000);
+    await job.moveToDelayed(runAt, token);
+
+    this.logger.warn(
+      `[DEFER] ${job.queueName} Sub ID: ${job.data.subscriptionId} until ${new Date(runAt).toISOString()} (${reason}).`,
+    );
+
+    throw new DelayedError();
+  }
+
+  private async scheduleRetry(
+    operator: RegisteredOperatorAdapter,
+    job: Job<RenewalJobData>,
+    policy: RetryPolicy,
+    attempt: number,
+    errorCategory?: ChargeErrorCategory,
+  ) {
+    const { subscriptionId } = job.data;
+    const queue = this.renewalService.getQueue(operator.code);
+    if (!queue) return;
+
+    const decision = this.retryPolicyService.decide(
+      policy,
+      attempt,
+      errorCategory,
+    );
+
+    if (!decision.retry) {
+      this.logger.warn(
+        `[SKIP REQUEUE] ${queue.name} Sub ID: ${subscriptionId} (${policy.name}): ${decision.reason}.`,
+      );
+      return;
+    }
+
+    await queue.add(
+      queue.name,
+      { ...job.data, attempt: decision.nextAttempt },
+      {
+        delay: decision.delayMs,
+        jobId: getRetryJobId(subscriptionId, decision.nextAttempt),
+        attempts: 1,
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    );
+
+    this.logger.warn(
+      `[REQUEUE] ${queue.name} Sub ID: ${subscriptionId} attempt ${decision.nextAttempt} at ${decision.retryAt.toISOString()} (${policy.name}).`,
+    );
+  }
+}
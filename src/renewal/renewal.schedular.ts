@@ -1,20 +1,49 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PinoLogger } from 'nestjs-pino';
-import { SubscriptionRepository } from 'src/database/subscription.repository';
+import { RedisService } from 'src/common/redis/redis.service';
+import { PaymentChannelRepository } from 'src/database/payment-channel.repository';
+import {
+  RenewalWindow,
+  SubscriptionRepository,
+} from 'src/database/subscription.repository';
+import { getRenewalWindow } from './billing-calendar';
+import {
+  DispatchCheckpoint,
+  DispatchCheckpointService,
+} from './dispatch-checkpoint.service';
+import { DISPATCH_RUN_STATUS } from './renewal.constants';
 import { RenewalService } from './renewal.service';
 
+const DISPATCH_LOCK_KEY = 'lock:renewal_dispatch';
+// Extended after every batch, so it only has to cover one batch.
+const DISPATCH_LOCK_TTL_SECONDS = 600;
+
 @Injectable()
 export class RenewalScheduler {
-  private cursor: bigint | undefined = undefined;
   private readonly BATCH_SIZE = 10000;
+  private readonly defaultTimezone: string;
+  private readonly lookbackDays: number;
 
   constructor(
     private readonly renewalService: RenewalService,
     private readonly logger: PinoLogger,
     private readonly subscriptionRepo: SubscriptionRepository,
+    private readonly checkpoints: DispatchCheckpointService,
+    private readonly redis: RedisService,
+    private readonly paymentChannelRepo: PaymentChannelRepository,
+    private readonly configService: ConfigService,
   ) {
     this.logger.setContext(RenewalScheduler.name);
+    this.defaultTimezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+    this.lookbackDays = this.configService.get<number>(
+      'billing.renewalLookbackDays',
+      3,
+    );
   }
 
   @Cron(CronExpression.EVERY_DAY_AT_1AM, {
@@ -26,37 +55,174 @@ export class RenewalScheduler {
       '--- STARTING DAILY RENEWAL DISPATCH (1:00 AM Asia/Dhaka) ---',
     );
 
-    let batchNumber = 0;
+    await this.runDispatch(this.checkpoints.getRunDate());
+  }
+
+  /**
+   * Picks up today's run if it was interrupted, e.g. by a restart or by the
+   * replica running it going away.
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: 'resume_renewal_dispatch' })
+  async resumeInterruptedRun() {
+    const runDate = this.checkpoints.getRunDate();
+    const checkpoint = await this.checkpoints.get(runDate);
+    if (checkpoint?.status !== DISPATCH_RUN_STATUS.RUNNING) return;
+
+    await this.runDispatch(runDate);
+  }
+
+  /**
+   * Dispatches the day's renewals from the last checkpoint. Only one replica
+   * runs at a time; the others return immediately. With `restart`, a run
+   * that already completed starts again from the beginning.
+   */
+  async runDispatch(runDate: string, options: { restart?: boolean } = {}) {
+    const lockToken = await this.redis.acquireLock(
+      DISPATCH_LOCK_KEY,
+      DISPATCH_LOCK_TTL_SECONDS,
+      1,
+    );
+    if (!lockToken) {
+      this.logger.info({ msg: 'Renewal dispatch already running', runDate });
+      return;
+    }
+
+    let checkpoint: DispatchCheckpoint | undefined;
+
+    try {
+      checkpoint = await this.checkpoints.getOrStart(runDate);
+      if (
+        options.restart &&
+        checkpoint.status === DISPATCH_RUN_STATUS.COMPLETED
+      ) {
+        checkpoint = await this.checkpoints.start(runDate);
+      }
+
+      if (checkpoint.status === DISPATCH_RUN_STATUS.COMPLETED) {
+        this.logger.info({ msg: 'Renewal dispatch already done', runDate });
+        return;
+      }
+
+      if (checkpoint.cursor) {
+        this.logger.info({
+          msg: 'Resuming renewal dispatch from checkpoint',
+          runDate,
+          cursor: checkpoint.cursor,
+          batches: checkpoint.batches,
+        });
+      }
+
+      await this.dispatchFromCheckpoint(checkpoint, lockToken);
+    } catch (error) {
+      this.logger.error(
+        { error: String(error), runDate, cursor: checkpoint?.cursor },
+        'Renewal dispatch interrupted.',
+      );
+      // Left RUNNING so the resume job retries from the last checkpoint.
+      if (checkpoint) {
+        checkpoint.lastError = String(error);
+        await this.checkpoints
+          .save(checkpoint)
+          .catch((saveError: unknown) =>
+            this.logger.error(
+              { error: String(saveError), runDate },
+              'Failed to record the dispatch error on its checkpoint.',
+            ),
+          );
+      }
+    } finally {
+      await this.redis.releaseLock(DISPATCH_LOCK_KEY, lockToken);
+    }
+  }
+
+  private async dispatchFromCheckpoint(
+    checkpoint: DispatchCheckpoint,
+    lockToken: string,
+  ) {
+    const windows = await this.resolveWindows();
 
     while (true) {
+      const cursor = checkpoint.cursor ? BigInt(checkpoint.cursor) : undefined;
       const subscriptions =
         await this.subscriptionRepo.findRenewableSubscriptions(
+          windows,
           this.BATCH_SIZE,
-          this.cursor,
+          cursor,
         );
 
       if (subscriptions.length === 0) {
         this.logger.info('✅ All renewable subscriptions processed.');
-        this.cursor = undefined;
         break;
       }
 
-      batchNumber++;
+      const batchNumber = checkpoint.batches + 1;
       this.logger.info({
         msg: `Processing batch`,
         batchNumber,
         count: subscriptions.length,
-        cursor: this.cursor?.toString(),
+        cursor: checkpoint.cursor,
       });
 
-      await this.dispatchJobs(subscriptions);
+      const { dispatched, skipped } = await this.dispatchJobs(subscriptions);
+
+      checkpoint.batches = batchNumber;
+      checkpoint.dispatched += dispatched;
+      checkpoint.skipped += skipped;
+      checkpoint.cursor = subscriptions[subscriptions.length - 1].id.toString();
+      checkpoint.lastError = null;
+      await this.checkpoints.save(checkpoint);
 
-      this.cursor = subscriptions[subscriptions.length - 1].id;
+      const stillOwned = await this.redis.extendLock(
+        DISPATCH_LOCK_KEY,
+        lockToken,
+        DISPATCH_LOCK_TTL_SECONDS,
+      );
+      if (!stillOwned) {
+        throw new Error('Lost the renewal dispatch lock');
+      }
 
       await new Promise((resolve) => setTimeout(resolve, 50));
     }
 
-    this.logger.info('--- DAILY RENEWAL DISPATCH COMPLETE ---');
+    checkpoint.status = DISPATCH_RUN_STATUS.COMPLETED;
+    checkpoint.finishedAt = new Date().toISOString();
+    await this.checkpoints.save(checkpoint);
+
+    this.logger.info({
+      msg: '--- DAILY RENEWAL DISPATCH COMPLETE ---',
+      runDate: checkpoint.runDate,
+      batches: checkpoint.batches,
+      dispatched: checkpoint.dispatched,
+      skipped: checkpoint.skipped,
+    });
+  }
+
+  /**
+   * "Today" is the local day of each channel's country, so renewals due in
+   * the early local hours are not pushed to the previous UTC day.
+   */
+  private async resolveWindows(): Promise<RenewalWindow[]> {
+    const now = new Date();
+    const channels = await this.paymentChannelRepo.findAllWithTimezone();
+
+    return channels.map((channel) => {
+      const timeZone = channel.countries.timezone ?? this.defaultTimezone;
+      const { from, to } = getRenewalWindow({
+        timeZone,
+        lookbackDays: this.lookbackDays,
+        now,
+      });
+
+      this.logger.debug({
+        msg: 'Renewal window resolved',
+        channel: channel.code,
+        timeZone,
+        from: from.toISOString(),
+        to: to.toISOString(),
+      });
+
+      return { paymentChannelId: channel.id, from, to };
+    });
   }
 
   private async dispatchJobs(
@@ -65,9 +231,14 @@ export class RenewalScheduler {
     >,
   ) {
     const now = Date.now();
+    let dispatched = 0;
+    let skipped = 0;
 
     for (const sub of subscriptions) {
-      if (!sub.next_billing_at) continue;
+      if (!sub.next_billing_at) {
+        skipped++;
+        continue;
+      }
 
       let delayMs = new Date(sub.next_billing_at).getTime() - now;
 
@@ -79,7 +250,7 @@ export class RenewalScheduler {
         });
       }
 
-      await this.renewalService.dispatchRenewalJob(
+      const queued = await this.renewalService.dispatchRenewalJob(
         {
           subscriptionId: sub.subscription_id,
           data: sub,
@@ -87,6 +258,12 @@ export class RenewalScheduler {
         delayMs,
       );
 
+      if (!queued) {
+        skipped++;
+        continue;
+      }
+
+      dispatched++;
       this.logger.debug({
         msg: 'Renewal job scheduled',
         subscriptionId: sub.subscription_id,
@@ -94,5 +271,7 @@ export class RenewalScheduler {
         scheduledAt: new Date(Date.now() + delayMs).toISOString(),
       });
     }
+
+    return { dispatched, skipped };
   }
 }
@@ -1,19 +1,33 @@
-import { InjectQueue } from '@nestjs/bullmq';
-import { Injectable } from '@nestjs/common';
+import { getQueueToken } from '@nestjs/bullmq';
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import { Queue } from 'bullmq';
 import { PinoLogger } from 'nestjs-pino';
 import { HttpCallError } from 'src/common/http-client/http-client.service';
+import { MetricsService } from 'src/common/metrics/metrics.service';
 import { RedisService } from 'src/common/redis/redis.service';
 import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
-import { RENEWAL_QUEUES } from './renewal.constants';
-import { RESULTS_REDIS_KEY } from './result-consumer.scheduler';
+import { ChargeErrorCategory } from 'src/payment/constants/charge-error-category.constants';
+import { OperatorAdapterRegistry } from 'src/payment/operator-adapter.registry';
+import { ResolvedPricing } from 'src/payment/pricing.service';
+import { DispatchValidationService } from './dispatch-validation.service';
+import { getRenewalQueueName, getRetryJobId } from './renewal.constants';
+import { RESULTS_REDIS_KEY } from './result-queue.service';
+import { RetryPolicyService } from './retry-policy.service';
+
+/** Job states that have not started running yet. */
+const PENDING_JOB_STATES: string[] = ['waiting', 'delayed', 'prioritized'];
 
 export interface RenewalJobData {
   subscriptionId: string;
   data: RenewableSubscriptionPayload;
+  /** 1-based charge attempt within the current day; absent means 1. */
+  attempt?: number;
 }
 
 export interface ChargeResult {
+  /** Identifies this result so the consumer applies it only once. */
+  resultId: string;
   subscriptionId: string;
   data: RenewableSubscriptionPayload;
   timestamp: number;
@@ -21,46 +35,89 @@ export interface ChargeResult {
   message?: string;
   paymentReferenceId?: string;
   error?: HttpCallError;
+  errorCategory?: ChargeErrorCategory;
+  errorCode?: string;
   httpStatus: number;
+  attempt: number;
+  retryPolicy: string;
+  pricing: ResolvedPricing;
+  /** Local due date of the billing cycle charged, as YYYY-MM-DD. */
+  cycleDate?: string;
   requestPayload: object;
   responsePayload?: any;
   responseDuration: number;
 }
 
 @Injectable()
-export class RenewalService {
-  private readonly operatorQueues: Record<string, Queue<RenewalJobData>>;
-
+export class RenewalService implements OnModuleInit {
   constructor(
-    @InjectQueue(RENEWAL_QUEUES.GP)
-    private readonly renewalQueueGp: Queue<RenewalJobData>,
-    @InjectQueue(RENEWAL_QUEUES.ROBI)
-    private readonly renewalQueueRobi: Queue<RenewalJobData>,
-    @InjectQueue(RENEWAL_QUEUES.ROBI_MIFE)
-    private readonly renewalQueueRobiMife: Queue<RenewalJobData>,
+    private readonly moduleRef: ModuleRef,
+    private readonly operatorAdapters: OperatorAdapterRegistry,
     private readonly logger: PinoLogger,
     private readonly redis: RedisService,
+    private readonly dispatchValidation: DispatchValidationService,
+    private readonly metrics: MetricsService,
+    private readonly retryPolicyService: RetryPolicyService,
   ) {
     this.logger.setContext(RenewalService.name);
+  }
+
+  onModuleInit() {
+    this.metrics.addCollector(async () => {
+      for (const { code } of this.operatorAdapters.list()) {
+        const queue = this.getQueue(code);
+        if (!queue) continue;
+
+        const counts = await queue.getJobCounts('waiting', 'delayed', 'failed');
+        for (const [state, count] of Object.entries(counts)) {
+          this.metrics.queueJobs.set({ operator: code, state }, count);
+        }
+      }
+    });
+  }
+
+  /**
+   * Resolves the renewal queue registered for an operator, if any.
+   */
+  getQueue(operatorCode: string): Queue<RenewalJobData> | undefined {
+    if (!this.operatorAdapters.get(operatorCode)) {
+      return undefined;
+    }
 
-    this.operatorQueues = {
-      GP: this.renewalQueueGp,
-      ROBI: this.renewalQueueRobi,
-      ROBI_MIFE: this.renewalQueueRobiMife,
-    };
+    return this.moduleRef.get<Queue<RenewalJobData>>(
+      getQueueToken(getRenewalQueueName(operatorCode)),
+      { strict: false },
+    );
   }
 
-  async dispatchRenewalJob(data: RenewalJobData, delayMs: number) {
+  /**
+   * Queues a renewal attempt. Returns false when the subscription was skipped.
+   */
+  async dispatchRenewalJob(
+    data: RenewalJobData,
+    delayMs: number,
+  ): Promise<boolean> {
     const operator = data.data.payment_channels.code;
 
-    const queue = this.operatorQueues[operator];
+    const queue = this.getQueue(operator);
     if (!queue) {
       this.logger.error({
         msg: 'Unknown operator. Cannot dispatch job.',
         operator,
         subscriptionId: data.subscriptionId,
       });
-      return;
+      return false;
+    }
+
+    const validation = await this.dispatchValidation.validate(data.data);
+    if (!validation.valid) {
+      await this.dispatchValidation.recordSkip(
+        data.data,
+        validation.reason,
+        validation.message,
+        validation.pricing,
+      );
+      return false;
     }
 
     const jobName = 'renewal-attempt';
@@ -72,6 +129,7 @@ export class RenewalService {
       removeOnFail: false,
     });
 
+    this.metrics.jobsDispatched.inc({ operator });
     this.logger.debug({
       msg: 'Renewal job dispatched',
       queue: queue.name,
@@ -79,6 +137,60 @@ export class RenewalService {
       delaySeconds: Math.round(delayMs / 1000),
       jobId: job.id,
     });
+
+    return true;
+  }
+
+  /**
+   * Removes the subscription's renewal job and same-day retries that are
+   * still waiting to run. Returns how many jobs were removed.
+   */
+  async removePendingJobs(data: RenewableSubscriptionPayload): Promise<number> {
+    const queue = this.getQueue(data.payment_channels.code);
+    if (!queue) return 0;
+
+    let removed = 0;
+    for (const jobId of this.getJobIds(data)) {
+      const job = await queue.getJob(jobId);
+      if (!job) continue;
+
+      const state = await job.getState();
+      if (!PENDING_JOB_STATES.includes(state)) continue;
+
+      await job.remove();
+      removed++;
+    }
+
+    if (removed) {
+      this.logger.info({
+        msg: 'Removed pending renewal jobs',
+        subscriptionId: data.subscription_id,
+        removed,
+      });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Finds the subscription's renewal or retry job that is no longer pending
+   * (running, or kept after failing), if there is one.
+   */
+  async findStartedJob(
+    data: RenewableSubscriptionPayload,
+  ): Promise<{ jobId: string; state: string } | null> {
+    const queue = this.getQueue(data.payment_channels.code);
+    if (!queue) return null;
+
+    for (const jobId of this.getJobIds(data)) {
+      const job = await queue.getJob(jobId);
+      if (!job) continue;
+
+      const state = await job.getState();
+      if (!PENDING_JOB_STATES.includes(state)) return { jobId, state };
+    }
+
+    return null;
   }
 
   async publishChargeResult(result: ChargeResult) {
@@ -91,4 +203,14 @@ export class RenewalService {
       timestamp: result.timestamp,
     });
   }
+
+  /** The subscription's renewal job id followed by its same-day retry ids. */
+  private getJobIds(data: RenewableSubscriptionPayload): string[] {
+    const { maxAttemptsPerDay } = this.retryPolicyService.resolve(data);
+    const jobIds = [data.subscription_id];
+    for (let attempt = 2; attempt <= maxAttemptsPerDay; attempt++) {
+      jobIds.push(getRetryJobId(data.subscription_id, attempt));
+    }
+    return jobIds;
+  }
 }
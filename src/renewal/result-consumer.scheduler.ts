@@ -1,73 +1,227 @@
-import { Injectable } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Prisma, subscription_status } from '@prisma/client';
 import { PinoLogger } from 'nestjs-pino';
+import { MetricsService } from 'src/common/metrics/metrics.service';
 import { RedisService } from 'src/common/redis/redis.service';
 import {
   BillingEventRepository,
   BillingEventsCreateManyInput,
 } from 'src/database/billing-event.repository';
+import { MerchantNotificationRepository } from 'src/database/merchant-notification.repository';
 import {
+  SubscriptionStatusChangeCreateManyInput,
+  SubscriptionStatusChangeRepository,
+} from 'src/database/subscription-status-change.repository';
+import {
+  LockedSubscriptionState,
   SubscriptionBulkUpdate,
   SubscriptionRepository,
 } from 'src/database/subscription.repository';
-import {
-  EventPublisherService,
-  NotificationPayload,
-} from 'src/event-publisher/event-publisher.service';
+import { TransactionService } from 'src/database/transaction.service';
+import { NotificationPayload } from 'src/event-publisher/event-publisher.service';
+import { NotificationOutboxService } from 'src/event-publisher/notification-outbox.service';
+import { MerchantWebhookService } from 'src/merchant-webhook/merchant-webhook.service';
+import { DunningService } from './dunning.service';
+import { STATUS_CHANGE_EVENT_SOURCE } from './renewal.constants';
 import { ChargeResult } from './renewal.service';
+import {
+  fingerprint,
+  RESULTS_REDIS_KEY,
+  ResultQueueService,
+} from './result-queue.service';
+
+const CONSUMER_INTERVAL_NAME = 'result_queue_consumer';
+const CONSUMER_LOCK_KEY = 'lock:result_queue_consumer';
+
+/** Relations of the subscription snapshot the consumer writes from. */
+const REQUIRED_RELATIONS = [
+  'merchants',
+  'products',
+  'product_plans',
+  'payment_channels',
+] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Returns why a parsed result cannot be applied, or null when it has every
+ * field the batch writes rely on.
+ */
+const findShapeError = (result: unknown): string | null => {
+  if (!isObject(result)) return 'Result is not an object';
+  if (typeof result.subscriptionId !== 'string')
+    return 'Missing subscriptionId';
+  if (typeof result.success !== 'boolean') return 'Missing success flag';
+  if (typeof result.httpStatus !== 'number') return 'Missing httpStatus';
+
+  const { pricing, data } = result;
+  if (
+    !isObject(pricing) ||
+    typeof pricing.amount !== 'number' ||
+    typeof pricing.currency !== 'string'
+  ) {
+    return 'Missing pricing';
+  }
+  if (!isObject(data)) return 'Missing subscription data';
+
+  const missing = REQUIRED_RELATIONS.find(
+    (relation) => !isObject(data[relation]),
+  );
+  return missing ? `Missing subscription data: ${missing}` : null;
+};
+
+interface ClaimedResult {
+  raw: string;
+  result: ChargeResult;
+}
+
+interface PendingStatusChange {
+  subscriptionId: string;
+  /** Status before this result, after any earlier result in the batch. */
+  previousStatus?: subscription_status;
+  newStatus: subscription_status;
+  success: boolean;
+  reason: string;
+}
 
-export const RESULTS_REDIS_KEY = 'renewal_status_report';
-const MAX_BATCH_SIZE = 250;
+interface BatchWrites {
+  subscriptionUpdates: SubscriptionBulkUpdate[];
+  statusChanges: PendingStatusChange[];
+  billingEvents: BillingEventsCreateManyInput[];
+  notifications: NotificationPayload[];
+  merchantNotifications: Prisma.merchant_notificationsCreateManyInput[];
+}
 
 @Injectable()
-export class ResultConsumerScheduler {
+export class ResultConsumerScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly batchSize: number;
+  private readonly intervalMs: number;
+  private readonly lockTtlSeconds: number;
+
   constructor(
     private readonly logger: PinoLogger,
     private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly metrics: MetricsService,
+    private readonly resultQueue: ResultQueueService,
     private readonly subscriptionRepo: SubscriptionRepository,
     private readonly billingEventRepo: BillingEventRepository,
-    private readonly eventPublisher: EventPublisherService,
-  ) {}
+    private readonly statusChangeRepo: SubscriptionStatusChangeRepository,
+    private readonly merchantNotificationRepo: MerchantNotificationRepository,
+    private readonly transactionService: TransactionService,
+    private readonly notificationOutbox: NotificationOutboxService,
+    private readonly dunningService: DunningService,
+    private readonly merchantWebhookService: MerchantWebhookService,
+  ) {
+    this.logger.setContext(ResultConsumerScheduler.name);
+    this.batchSize = this.configService.get<number>(
+      'resultConsumer.batchSize',
+      250,
+    );
+    this.intervalMs = this.configService.get<number>(
+      'resultConsumer.intervalMs',
+      10000,
+    );
+    // Held for as long as a claimed batch may stay unacknowledged.
+    this.lockTtlSeconds = this.configService.get<number>(
+      'resultConsumer.visibilityTimeoutSeconds',
+      300,
+    );
+  }
+
+  onModuleInit() {
+    const interval = setInterval(
+      () => void this.handleResultQueue(),
+      this.intervalMs,
+    );
+    this.schedulerRegistry.addInterval(CONSUMER_INTERVAL_NAME, interval);
+  }
+
+  onModuleDestroy() {
+    this.schedulerRegistry.deleteInterval(CONSUMER_INTERVAL_NAME);
+  }
 
   /**
-   * CRON Job: Runs every 10 seconds to process pending renewal results.
+   * Runs every `resultConsumer.intervalMs` to process pending renewal results.
+   * Only one replica consumes at a time, guarded by a Redis lock.
    */
-  @Cron(CronExpression.EVERY_10_SECONDS, {
-    name: 'result_queue_consumer',
-  })
   async handleResultQueue() {
+    const lockToken = await this.redis.acquireLock(
+      CONSUMER_LOCK_KEY,
+      this.lockTtlSeconds,
+      1,
+    );
+    if (!lockToken) return;
+
+    try {
+      await this.consumeBatch();
+    } catch (error) {
+      this.logger.error(
+        { error: String(error) },
+        'Result queue consumer run failed.',
+      );
+    } finally {
+      await this.redis.releaseLock(CONSUMER_LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * Results are only acknowledged once the batch, including its outbox
+   * notifications, has been committed to the database; otherwise they are
+   * retried.
+   */
+  private async consumeBatch() {
     this.logger.info(
       `[START] Running result queue consumer. Checking ${RESULTS_REDIS_KEY}.`,
     );
 
-    const batch: ChargeResult[] = [];
-    const collectedResults: string[] = [];
+    await this.resultQueue.reclaimStale();
 
-    for (let i = 0; i < MAX_BATCH_SIZE; i++) {
-      const serializedResult = await this.redis.lpop(RESULTS_REDIS_KEY);
-
-      if (!serializedResult) {
-        break; // List is empty, exit loop
-      }
-      collectedResults.push(serializedResult);
-    }
+    const collectedResults = await this.resultQueue.claim(this.batchSize);
 
     if (collectedResults.length === 0) {
       this.logger.warn({ msg: 'No new results to process.' });
       return;
     }
 
+    const batch: ClaimedResult[] = [];
+
     for (const serializedResult of collectedResults) {
+      let parsed: unknown;
       try {
-        const result: ChargeResult = JSON.parse(serializedResult);
-        batch.push(result);
+        parsed = JSON.parse(serializedResult);
       } catch (error) {
         this.logger.error({
           msg: 'Failed to parse charging result JSON.',
-          error: error.message,
+          error: String(error),
+          raw_data: serializedResult,
+        });
+        await this.resultQueue.deadLetter(
+          [serializedResult],
+          'Unparseable result JSON',
+        );
+        continue;
+      }
+
+      const shapeError = findShapeError(parsed);
+      if (shapeError) {
+        this.logger.error({
+          msg: 'Charging result is missing required fields.',
+          error: shapeError,
           raw_data: serializedResult,
         });
+        await this.resultQueue.deadLetter([serializedResult], shapeError);
+        continue;
       }
+
+      const result = parsed as ChargeResult;
+      // Results queued before they carried an id.
+      result.resultId ??= fingerprint(serializedResult);
+      batch.push({ raw: serializedResult, result });
     }
 
     this.logger.info({
@@ -75,35 +229,134 @@ export class ResultConsumerScheduler {
       totalConsumed: collectedResults.length,
     });
 
+    if (batch.length === 0) return;
+
+    const endTimer = this.metrics.resultBatchDuration.startTimer();
     try {
-      await this.processResultsBatch(batch);
-      this.logger.info({
-        msg: 'Successfully processed results batch.',
-        count: batch.length,
-      });
+      await this.processResultsBatch(batch.map(({ result }) => result));
+      endTimer({ outcome: 'success' });
     } catch (error) {
+      endTimer({ outcome: 'failure' });
       this.logger.error({
-        msg: 'Error processing results batch.',
-        error: error.message,
+        msg: 'Error processing results batch, applying results one by one.',
+        error: String(error),
         batch_count: batch.length,
       });
-      // Important: If processing fails (e.g., database is down), you need a recovery
-      // mechanism, such as re-pushing the batch to the Redis list (LPUSH)
-      // or saving them to a temporary error queue.
+      await this.processResultsIndividually(batch);
+      return;
     }
+
+    await this.resultQueue.ack(batch.map(({ raw }) => raw));
+    this.logger.info({
+      msg: 'Successfully processed results batch.',
+      count: batch.length,
+    });
   }
 
   /**
-   * Placeholder for the actual business logic (e.g., updating database, sending notifications).
+   * Fallback for a failed batch: applies each result in its own transaction,
+   * so one result the database rejects is retried on its own instead of
+   * holding back the rest of the batch.
+   */
+  private async processResultsIndividually(batch: ClaimedResult[]) {
+    let failed = 0;
+
+    for (const { raw, result } of batch) {
+      try {
+        await this.processResultsBatch([result]);
+        await this.resultQueue.ack([raw]);
+      } catch (error) {
+        failed++;
+        this.logger.error({
+          msg: 'Error processing charge result, returning it to the queue.',
+          error: String(error),
+          subscriptionId: result.subscriptionId,
+        });
+        await this.resultQueue.retry([raw], String(error));
+      }
+    }
+
+    this.logger.info({
+      msg: 'Processed results batch one by one.',
+      count: batch.length,
+      failed,
+    });
+  }
+
+  /**
+   * Applies a batch of charge results in one transaction: subscription
+   * updates, status audit rows, billing events, merchant webhooks and the
+   * notification outbox. Results that an earlier, interrupted run already
+   * applied are skipped, so a retried batch writes nothing twice.
    * @param results An array of successfully parsed ChargeResult objects.
    */
   private async processResultsBatch(results: ChargeResult[]): Promise<void> {
-    const subscriptionUpdateInputs: SubscriptionBulkUpdate[] = [];
-    const billingEventsCreateManyInputs: BillingEventsCreateManyInput[] = [];
-    const notificationMessages: NotificationPayload[] = [];
+    await this.transactionService.executeInTransaction(
+      async (tx: Prisma.TransactionClient) => {
+        const recorded = await this.billingEventRepo.findRecordedResultIds(
+          results.map((result) => result.resultId),
+          tx,
+        );
+        if (recorded.size) {
+          this.logger.warn({
+            msg: 'Skipping charge results that were already applied.',
+            count: recorded.size,
+          });
+        }
+
+        const pending = results.filter(
+          (result) => !recorded.has(result.resultId),
+        );
+        if (!pending.length) return;
+
+        // Dunning decisions are made against the locked rows rather than the
+        // job snapshots, which predate any earlier failure of this cycle.
+        const lockedStates = await this.subscriptionRepo.findStatusesForUpdate(
+          [...new Set(pending.map((result) => result.subscriptionId))],
+          tx,
+        );
+        const writes = this.buildBatchWrites(pending, lockedStates);
+
+        await this.subscriptionRepo.bulkUpdateStatus(
+          writes.subscriptionUpdates,
+          tx,
+        );
+        await this.statusChangeRepo.createMany(
+          this.buildStatusChanges(writes.statusChanges),
+          tx,
+        );
+        await this.billingEventRepo.createMany(writes.billingEvents, tx);
+        // Delivered asynchronously by the merchant webhook scheduler.
+        await this.merchantNotificationRepo.createMany(
+          writes.merchantNotifications,
+          tx,
+        );
+        // Published to RabbitMQ by the notification outbox relay.
+        await this.notificationOutbox.enqueue(writes.notifications, tx);
+      },
+    );
+  }
+
+  /**
+   * @param lockedStates Current status and grace window per subscription.
+   * Advanced as results are evaluated, so a second result for the same
+   * subscription in one batch builds on the first.
+   */
+  private buildBatchWrites(
+    results: ChargeResult[],
+    lockedStates: Map<string, LockedSubscriptionState>,
+  ): BatchWrites {
+    const writes: BatchWrites = {
+      subscriptionUpdates: [],
+      statusChanges: [],
+      billingEvents: [],
+      notifications: [],
+      merchantNotifications: [],
+    };
 
     for (const result of results) {
       const {
+        resultId,
         responseDuration,
         requestPayload,
         responsePayload,
@@ -112,8 +365,14 @@ export class ResultConsumerScheduler {
         data,
         success,
         error,
+        errorCategory,
+        errorCode,
         message,
         paymentReferenceId,
+        attempt,
+        retryPolicy,
+        pricing,
+        cycleDate,
       } = result;
       const {
         payment_channels,
@@ -121,24 +380,9 @@ export class ResultConsumerScheduler {
         msisdn,
         products,
         product_plans,
-        plan_pricing,
         merchants,
       } = data;
 
-      const billingCycleDays = product_plans.billing_cycle_days;
-      const now = new Date();
-
-      const nextBillingAt = new Date(
-        now.getTime() + billingCycleDays * 24 * 60 * 60 * 1000,
-      );
-
-      const subscriptionUpdateInput = {
-        subscriptionId,
-        success,
-        nextBillingAt,
-      };
-      subscriptionUpdateInputs.push(subscriptionUpdateInput);
-
       const billingEventCreateSingleInput: BillingEventsCreateManyInput = {
         subscription_id: subscriptionId,
         merchant_id: merchants.id,
@@ -149,16 +393,69 @@ export class ResultConsumerScheduler {
         payment_reference_id: paymentReferenceId,
         event_type: 'RENEWAL',
         status: success ? 'SUCCESS' : 'FAILED',
-        amount: plan_pricing?.base_amount.toNumber() ?? 0,
-        currency: plan_pricing?.currency ?? 'BDT',
+        amount: pricing.amount,
+        amount_with_vat: pricing.amountWithVat,
+        plan_pricing_id: pricing.planPricingId,
+        currency: pricing.currency,
         request_payload: { requestPayload },
-        response_payload: { responsePayload },
+        response_payload: { responsePayload, httpStatus, errorCode },
         response_message: message,
         duration: responseDuration,
-        response_code: httpStatus.toString(),
+        // Failed charges carry the normalized category so retry and
+        // suspension decisions can depend on why the charge failed.
+        response_code: success
+          ? httpStatus.toString()
+          : (errorCategory ?? httpStatus.toString()),
+        attempt_number: attempt ?? 1,
+        retry_policy: retryPolicy,
+        result_id: resultId,
+        cycle_date: cycleDate ? new Date(`${cycleDate}T00:00:00Z`) : null,
       };
-      billingEventsCreateManyInputs.push(billingEventCreateSingleInput);
-      notificationMessages.push({
+      writes.billingEvents.push(billingEventCreateSingleInput);
+
+      const previousStatus = lockedStates.get(subscriptionId)?.status;
+      const transition = this.dunningService.evaluate(
+        { ...data, ...lockedStates.get(subscriptionId) },
+        success,
+      );
+      if (!transition) {
+        // Cancelled or expired while the charge was in flight: the charge is
+        // still recorded, but the subscription is left as it is.
+        this.logger.warn({
+          msg: 'Recording charge result for a subscription that is no longer renewable.',
+          subscriptionId,
+          status: previousStatus,
+          success,
+        });
+        continue;
+      }
+      lockedStates.set(subscriptionId, {
+        status: transition.status,
+        grace_period_ends_at: transition.gracePeriodEndsAt,
+      });
+
+      const subscriptionUpdateInput: SubscriptionBulkUpdate = {
+        subscriptionId,
+        success,
+        status: transition.status,
+        nextBillingAt: transition.nextBillingAt,
+        gracePeriodEndsAt: transition.gracePeriodEndsAt,
+      };
+      // The bulk update takes one row per subscription: keep the latest.
+      writes.subscriptionUpdates = writes.subscriptionUpdates.filter(
+        (update) => update.subscriptionId !== subscriptionId,
+      );
+      writes.subscriptionUpdates.push(subscriptionUpdateInput);
+
+      writes.statusChanges.push({
+        subscriptionId,
+        previousStatus,
+        newStatus: transition.status,
+        success,
+        reason: [transition.reason, message].filter(Boolean).join(': '),
+      });
+
+      const notification: NotificationPayload = {
         id: crypto.randomUUID(),
         source: 'dcb-renewal-service',
         subscriptionId,
@@ -166,16 +463,66 @@ export class ResultConsumerScheduler {
         keyword: products.name,
         msisdn,
         paymentProvider: payment_channels.code,
-        amount: plan_pricing?.base_amount.toNumber() ?? 0,
-        currency: plan_pricing?.currency ?? 'BDT',
+        amount: pricing.amount,
+        currency: pricing.currency,
         billingCycleDays: product_plans.billing_cycle_days,
         eventType: success ? 'renew.success' : 'renew.fail',
         timestamp: Date.now(),
-      });
+      };
+      const events: NotificationPayload[] = [notification];
+
+      if (transition.notificationEventType) {
+        events.push({
+          ...notification,
+          id: crypto.randomUUID(),
+          eventType: transition.notificationEventType,
+          metadata: {
+            status: transition.status,
+            gracePeriodEndsAt: transition.gracePeriodEndsAt?.toISOString(),
+          },
+        });
+      }
+
+      for (const event of events) {
+        writes.notifications.push(event);
+
+        const merchantNotification =
+          this.merchantWebhookService.buildNotification(data, event);
+        if (merchantNotification) {
+          writes.merchantNotifications.push(merchantNotification);
+        }
+      }
     }
 
-    await this.subscriptionRepo.bulkUpdateStatus(subscriptionUpdateInputs);
-    await this.billingEventRepo.createMany(billingEventsCreateManyInputs);
-    await this.eventPublisher.sendNotificationsBatch(notificationMessages);
+    return writes;
+  }
+
+  /**
+   * Audit rows are only written for actual transitions; renewals that leave
+   * the status untouched are already traceable through billing_events.
+   */
+  private buildStatusChanges(
+    pending: PendingStatusChange[],
+  ): SubscriptionStatusChangeCreateManyInput[] {
+    const changedAt = new Date();
+
+    return pending.flatMap(
+      ({ subscriptionId, previousStatus, newStatus, success, reason }) => {
+        if (!previousStatus || previousStatus === newStatus) return [];
+
+        return [
+          {
+            subscription_id: subscriptionId,
+            event_type: 'RENEWAL',
+            event_source: STATUS_CHANGE_EVENT_SOURCE,
+            event_status: success ? 'SUCCESS' : 'FAILED',
+            previous_status: previousStatus,
+            new_status: newStatus,
+            reason,
+            status_changed_at: changedAt,
+          },
+        ];
+      },
+    );
   }
 }
@@ -0,0 +1,143 @@
+import {
+  fingerprint,
+  RESULTS_DEAD_LETTER_KEY,
+  RESULTS_REDIS_KEY,
+  ResultQueueService,
+} from './result-queue.service';
+
+const PROCESSING_KEY = `${RESULTS_REDIS_KEY}:processing`;
+const CLAIMS_KEY = `${RESULTS_REDIS_KEY}:claims`;
+const ATTEMPTS_KEY = `${RESULTS_REDIS_KEY}:attempts`;
+
+describe('ResultQueueService', () => {
+  let redis: {
+    claimListItems: jest.Mock;
+    ackListItems: jest.Mock;
+    moveClaimedListItems: jest.Mock;
+    findStaleClaims: jest.Mock;
+    hincrby: jest.Mock;
+    hdel: jest.Mock;
+  };
+  let attempts: Map<string, number>;
+  let logger: { setContext: jest.Mock; error: jest.Mock; warn: jest.Mock };
+  let service: ResultQueueService;
+
+  beforeEach(() => {
+    attempts = new Map();
+    redis = {
+      claimListItems: jest.fn().mockResolvedValue(['a', 'b']),
+      ackListItems: jest.fn().mockResolvedValue(undefined),
+      moveClaimedListItems: jest.fn().mockResolvedValue(undefined),
+      findStaleClaims: jest.fn().mockResolvedValue([]),
+      hincrby: jest.fn().mockImplementation((_key, field: string) => {
+        const next = (attempts.get(field) ?? 0) + 1;
+        attempts.set(field, next);
+        return Promise.resolve(next);
+      }),
+      hdel: jest.fn().mockResolvedValue(undefined),
+    };
+    const config: Record<string, unknown> = {
+      'resultConsumer.visibilityTimeoutSeconds': 60,
+      'resultConsumer.maxAttempts': 3,
+    };
+    logger = { setContext: jest.fn(), error: jest.fn(), warn: jest.fn() };
+    service = new ResultQueueService(
+      redis as never,
+      {
+        get: (key: string, fallback?: unknown) => config[key] ?? fallback,
+      } as never,
+      {} as never,
+      logger as never,
+    );
+  });
+
+  it('claims results into the processing list', async () => {
+    await expect(service.claim(2)).resolves.toEqual(['a', 'b']);
+    expect(redis.claimListItems).toHaveBeenCalledWith(
+      RESULTS_REDIS_KEY,
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      2,
+    );
+  });
+
+  it('acknowledges results and forgets their attempts', async () => {
+    await service.ack(['a']);
+
+    expect(redis.ackListItems).toHaveBeenCalledWith(
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      ['a'],
+    );
+    expect(redis.hdel).toHaveBeenCalledWith(ATTEMPTS_KEY, fingerprint('a'));
+  });
+
+  it('does nothing when acknowledging an empty batch', async () => {
+    await service.ack([]);
+
+    expect(redis.ackListItems).not.toHaveBeenCalled();
+    expect(redis.hdel).not.toHaveBeenCalled();
+  });
+
+  it('requeues failed results until they run out of attempts', async () => {
+    attempts.set(fingerprint('b'), 2);
+
+    await service.retry(['a', 'b'], 'database down');
+
+    expect(redis.moveClaimedListItems).toHaveBeenCalledWith(
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      RESULTS_REDIS_KEY,
+      ['a'],
+    );
+    expect(redis.moveClaimedListItems).toHaveBeenCalledWith(
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      RESULTS_DEAD_LETTER_KEY,
+      ['b'],
+      [expect.stringContaining('"raw":"b"')],
+    );
+  });
+
+  it('dead-letters results with the reason and time of failure', async () => {
+    await service.deadLetter(['{"bad"'], 'Unparseable result');
+
+    const [, , target, items, values] = redis.moveClaimedListItems.mock
+      .calls[0] as [string, string, string, string[], string[]];
+    expect(target).toBe(RESULTS_DEAD_LETTER_KEY);
+    expect(items).toEqual(['{"bad"']);
+    const deadLettered = JSON.parse(values[0]) as Record<string, string>;
+    expect(deadLettered).toMatchObject({
+      raw: '{"bad"',
+      reason: 'Unparseable result',
+    });
+    expect(Date.parse(deadLettered.failedAt)).not.toBeNaN();
+    expect(redis.hdel).toHaveBeenCalledWith(
+      ATTEMPTS_KEY,
+      fingerprint('{"bad"'),
+    );
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('reclaims results whose claim timed out as a failed attempt', async () => {
+    redis.findStaleClaims.mockResolvedValue(['a']);
+
+    await expect(service.reclaimStale()).resolves.toBe(1);
+
+    expect(redis.findStaleClaims).toHaveBeenCalledWith(CLAIMS_KEY, 60_000);
+    expect(attempts.get(fingerprint('a'))).toBe(1);
+    expect(redis.moveClaimedListItems).toHaveBeenCalledWith(
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      RESULTS_REDIS_KEY,
+      ['a'],
+    );
+  });
+
+  it('leaves the queue alone when no claim is stale', async () => {
+    await expect(service.reclaimStale()).resolves.toBe(0);
+
+    expect(redis.hincrby).not.toHaveBeenCalled();
+    expect(redis.moveClaimedListItems).not.toHaveBeenCalled();
+  });
+});
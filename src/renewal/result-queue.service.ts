@@ -0,0 +1,159 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { PinoLogger } from 'nestjs-pino';
+import { MetricsService } from 'src/common/metrics/metrics.service';
+import { RedisService } from 'src/common/redis/redis.service';
+
+export const RESULTS_REDIS_KEY = 'renewal_status_report';
+const PROCESSING_KEY = `${RESULTS_REDIS_KEY}:processing`;
+const CLAIMS_KEY = `${RESULTS_REDIS_KEY}:claims`;
+const ATTEMPTS_KEY = `${RESULTS_REDIS_KEY}:attempts`;
+export const RESULTS_DEAD_LETTER_KEY = `${RESULTS_REDIS_KEY}:dead_letter`;
+
+export interface ResultBacklog {
+  pending: number;
+  processing: number;
+  deadLetter: number;
+}
+
+/** Attempt counters are keyed by a hash of the raw payload. */
+export const fingerprint = (item: string) =>
+  createHash('sha1').update(item).digest('hex');
+
+/**
+ * Reliable consumer side of the renewal result list.
+ *
+ * Claimed results are moved to a processing list rather than popped, so a
+ * crash or failed batch never loses them: they stay there until acknowledged,
+ * are put back on the queue after a failure or once their claim times out,
+ * and are parked in a dead-letter list when they cannot be processed.
+ */
+@Injectable()
+export class ResultQueueService implements OnModuleInit {
+  private readonly visibilityTimeoutMs: number;
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(ResultQueueService.name);
+    this.visibilityTimeoutMs =
+      this.configService.get<number>(
+        'resultConsumer.visibilityTimeoutSeconds',
+        300,
+      ) * 1000;
+    this.maxAttempts = this.configService.get<number>(
+      'resultConsumer.maxAttempts',
+      5,
+    );
+  }
+
+  onModuleInit() {
+    this.metrics.addCollector(async () => {
+      const { pending, processing, deadLetter } = await this.getBacklog();
+
+      this.metrics.resultBacklog.set({ list: 'pending' }, pending);
+      this.metrics.resultBacklog.set({ list: 'processing' }, processing);
+      this.metrics.resultBacklog.set({ list: 'dead_letter' }, deadLetter);
+    });
+  }
+
+  /** Current sizes of the pending, processing and dead-letter lists. */
+  async getBacklog(): Promise<ResultBacklog> {
+    const [pending, processing, deadLetter] = await Promise.all([
+      this.redis.llen(RESULTS_REDIS_KEY),
+      this.redis.llen(PROCESSING_KEY),
+      this.redis.llen(RESULTS_DEAD_LETTER_KEY),
+    ]);
+
+    return { pending, processing, deadLetter };
+  }
+
+  async claim(count: number): Promise<string[]> {
+    return this.redis.claimListItems(
+      RESULTS_REDIS_KEY,
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      count,
+    );
+  }
+
+  async ack(items: string[]): Promise<void> {
+    if (!items.length) return;
+
+    await this.redis.ackListItems(PROCESSING_KEY, CLAIMS_KEY, items);
+    await this.redis.hdel(ATTEMPTS_KEY, ...items.map(fingerprint));
+  }
+
+  /**
+   * Puts failed items back on the queue, or dead-letters those that have
+   * used up their attempts.
+   */
+  async retry(items: string[], reason: string): Promise<void> {
+    const requeue: string[] = [];
+    const exhausted: string[] = [];
+
+    for (const item of items) {
+      const attempts = await this.redis.hincrby(
+        ATTEMPTS_KEY,
+        fingerprint(item),
+      );
+      (attempts >= this.maxAttempts ? exhausted : requeue).push(item);
+    }
+
+    await this.redis.moveClaimedListItems(
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      RESULTS_REDIS_KEY,
+      requeue,
+    );
+    await this.deadLetter(
+      exhausted,
+      `Gave up after ${this.maxAttempts} attempts: ${reason}`,
+    );
+  }
+
+  async deadLetter(items: string[], reason: string): Promise<void> {
+    if (!items.length) return;
+
+    const failedAt = new Date().toISOString();
+    await this.redis.moveClaimedListItems(
+      PROCESSING_KEY,
+      CLAIMS_KEY,
+      RESULTS_DEAD_LETTER_KEY,
+      items,
+      items.map((raw) => JSON.stringify({ raw, reason, failedAt })),
+    );
+    await this.redis.hdel(ATTEMPTS_KEY, ...items.map(fingerprint));
+
+    this.logger.error({
+      msg: 'Moved renewal results to the dead-letter list.',
+      count: items.length,
+      reason,
+    });
+  }
+
+  /**
+   * Returns items whose claim outlived the visibility timeout (e.g. the
+   * consumer crashed mid-batch) to the queue. Counts as a failed attempt.
+   */
+  async reclaimStale(): Promise<number> {
+    const stale = await this.redis.findStaleClaims(
+      CLAIMS_KEY,
+      this.visibilityTimeoutMs,
+    );
+    if (!stale.length) return 0;
+
+    await this.retry(stale, 'Claim timed out before acknowledgement');
+    this.logger.warn({
+      msg: 'Reclaimed stale renewal results.',
+      count: stale.length,
+    });
+
+    return stale.length;
+  }
+}
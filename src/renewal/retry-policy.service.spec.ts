@@ -0,0 +1,166 @@
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+import { RetryPolicy, RetryPolicyService } from './retry-policy.service';
+
+/** Builds the UTC instant for a wall-clock time in Dhaka (UTC+6, no DST). */
+const dhaka = (isoLocal: string) => new Date(`${isoLocal}+06:00`);
+
+const DEFAULT_POLICY: Omit<RetryPolicy, 'name'> = {
+  maxAttemptsPerDay: 1,
+  backoffMinutes: [480],
+  cutoffTime: '23:59',
+  timezone: 'Asia/Dhaka',
+  skipRetryOn: ['PERMANENT_REJECT', 'CONSENT_INVALID'],
+};
+
+const buildSubscription = (operator: string, retryPolicy?: unknown) =>
+  ({
+    product_id: 'prod_1',
+    plan_id: 'plan_1',
+    payment_channels: { code: operator },
+    charging_configurations: retryPolicy ? { config: { retryPolicy } } : null,
+  }) as unknown as RenewableSubscriptionPayload;
+
+describe('RetryPolicyService', () => {
+  let logger: { setContext: jest.Mock; error: jest.Mock };
+  let service: RetryPolicyService;
+
+  beforeEach(() => {
+    const config: Record<string, unknown> = {
+      'retry.defaultPolicy': DEFAULT_POLICY,
+      'retry.operators': { GP: { maxAttemptsPerDay: 2 } },
+    };
+    logger = { setContext: jest.fn(), error: jest.fn() };
+    service = new RetryPolicyService(
+      { get: (key: string) => config[key] } as never,
+      logger as never,
+    );
+  });
+
+  describe('resolve', () => {
+    it('uses the default policy for operators without overrides', () => {
+      expect(service.resolve(buildSubscription('ROBI'))).toEqual({
+        ...DEFAULT_POLICY,
+        name: 'default',
+      });
+    });
+
+    it('applies the operator override', () => {
+      expect(service.resolve(buildSubscription('GP'))).toEqual({
+        ...DEFAULT_POLICY,
+        maxAttemptsPerDay: 2,
+        name: 'GP',
+      });
+    });
+
+    it('applies the charging configuration override on top', () => {
+      expect(
+        service.resolve(
+          buildSubscription('GP', {
+            backoffMinutes: [30],
+            cutoffTime: '20:00',
+          }),
+        ),
+      ).toEqual({
+        ...DEFAULT_POLICY,
+        maxAttemptsPerDay: 2,
+        backoffMinutes: [30],
+        cutoffTime: '20:00',
+        name: 'GP:prod_1:plan_1',
+      });
+    });
+
+    it('ignores an invalid charging configuration override and reports it once', () => {
+      const subscription = buildSubscription('GP', {
+        maxAttemptsPerDay: 0,
+        cutoffTime: '25:00',
+      });
+
+      expect(service.resolve(subscription).name).toBe('GP');
+      expect(service.resolve(subscription).maxAttemptsPerDay).toBe(2);
+      expect(logger.error).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('decide', () => {
+    const policy: RetryPolicy = {
+      name: 'GP',
+      maxAttemptsPerDay: 4,
+      backoffMinutes: [60, 240],
+      cutoffTime: '23:00',
+      timezone: 'Asia/Dhaka',
+      skipRetryOn: ['PERMANENT_REJECT'],
+    };
+
+    it('does not retry categories the policy skips', () => {
+      expect(
+        service.decide(
+          policy,
+          1,
+          'PERMANENT_REJECT',
+          dhaka('2026-10-19T10:00:00'),
+        ),
+      ).toEqual({ retry: false, reason: 'PERMANENT_REJECT is not retryable' });
+    });
+
+    it('stops at the daily attempt limit', () => {
+      expect(
+        service.decide(policy, 4, 'TRANSIENT', dhaka('2026-10-19T10:00:00')),
+      ).toEqual({ retry: false, reason: 'Daily attempt limit reached' });
+    });
+
+    it('backs off by the step for the attempt, repeating the last one', () => {
+      const now = dhaka('2026-10-19T10:00:00');
+
+      expect(service.decide(policy, 1, 'TRANSIENT', now)).toEqual({
+        retry: true,
+        nextAttempt: 2,
+        retryAt: dhaka('2026-10-19T11:00:00'),
+        delayMs: 60 * 60 * 1000,
+      });
+      expect(service.decide(policy, 2, 'TRANSIENT', now)).toMatchObject({
+        retryAt: dhaka('2026-10-19T14:00:00'),
+      });
+      expect(service.decide(policy, 3, 'TRANSIENT', now)).toMatchObject({
+        retryAt: dhaka('2026-10-19T14:00:00'),
+      });
+    });
+
+    it('does not retry past the daily cutoff', () => {
+      expect(
+        service.decide(policy, 1, 'TRANSIENT', dhaka('2026-10-19T22:30:00')),
+      ).toEqual({
+        retry: false,
+        reason: 'Retry would fall after daily cutoff',
+      });
+    });
+
+    it('moves a retry out of quiet hours', () => {
+      expect(
+        service.decide(
+          { ...policy, quietHours: { start: '12:00', end: '14:00' } },
+          1,
+          'TRANSIENT',
+          dhaka('2026-10-19T11:30:00'),
+        ),
+      ).toMatchObject({ retry: true, retryAt: dhaka('2026-10-19T14:00:00') });
+    });
+
+    it('does not retry when quiet hours wrapping midnight push it to tomorrow', () => {
+      expect(
+        service.decide(
+          {
+            ...policy,
+            cutoffTime: '23:59',
+            quietHours: { start: '22:00', end: '07:00' },
+          },
+          1,
+          'TRANSIENT',
+          dhaka('2026-10-19T21:30:00'),
+        ),
+      ).toEqual({
+        retry: false,
+        reason: 'Retry would fall after daily cutoff',
+      });
+    });
+  });
+});
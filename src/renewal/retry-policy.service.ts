@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import {
+  getZonedParts,
+  parseTimeOfDay,
+  zonedTimeToUtc,
+} from 'src/common/utils/timezone.util';
+import {
+  RetryPolicyOverride,
+  retryPolicyOverrideSchema,
+} from 'src/config/retry-policy.schema';
+import { RenewableSubscriptionPayload } from 'src/database/subscription.repository';
+import { ChargeErrorCategory } from 'src/payment/constants/charge-error-category.constants';
+
+export interface RetryPolicy {
+  /** Where the policy came from, recorded on billing events. */
+  name: string;
+  /** Total charge attempts allowed per local day, including the first. */
+  maxAttemptsPerDay: number;
+  /** Delay before attempt N+1 is `backoffMinutes[N-1]`; the last value repeats. */
+  backoffMinutes: number[];
+  /** Local `HH:mm` window during which no attempt is made. */
+  quietHours?: { start: string; end: string };
+  /** Local `HH:mm` after which no same-day retry is scheduled. */
+  cutoffTime: string;
+  /** IANA timezone of the operator. */
+  timezone: string;
+  /** Failure categories that never warrant a retry. */
+  skipRetryOn: ChargeErrorCategory[];
+}
+
+export type RetryDecision =
+  | { retry: true; nextAttempt: number; retryAt: Date; delayMs: number }
+  | { retry: false; reason: string };
+
+@Injectable()
+export class RetryPolicyService {
+  private readonly defaultPolicy: Omit<RetryPolicy, 'name'>;
+  private readonly operatorPolicies: Record<string, RetryPolicyOverride>;
+  /** Invalid charging configuration overrides already reported. */
+  private readonly reportedOverrides = new Set<string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(RetryPolicyService.name);
+    this.defaultPolicy = this.configService.get('retry.defaultPolicy')!;
+    this.operatorPolicies =
+      this.configService.get<Record<string, RetryPolicyOverride>>(
+        'retry.operators',
+      ) ?? {};
+  }
+
+  /**
+   * Resolves the effective policy: service default, then operator config,
+   * then the `retryPolicy` block of the subscription's charging configuration
+   * (which is scoped to operator + product + plan). An override that does
+   * not match the policy schema is ignored rather than applied.
+   */
+  resolve(data: RenewableSubscriptionPayload): RetryPolicy {
+    const operator = data.payment_channels.code;
+    const operatorPolicy = this.operatorPolicies[operator];
+    const scope = `${operator}:${data.product_id}:${data.plan_id}`;
+    const override = this.parseOverride(
+      scope,
+      (data.charging_configurations?.config as { retryPolicy?: unknown } | null)
+        ?.retryPolicy,
+    );
+
+    let name = 'default';
+    if (override) {
+      name = scope;
+    } else if (operatorPolicy) {
+      name = operator;
+    }
+
+    return {
+      ...this.defaultPolicy,
+      ...operatorPolicy,
+      ...override,
+      name,
+    };
+  }
+
+  /**
+   * Decides whether a failed attempt should be retried the same day and when.
+   */
+  decide(
+    policy: RetryPolicy,
+    attempt: number,
+    errorCategory?: ChargeErrorCategory,
+    now: Date = new Date(),
+  ): RetryDecision {
+    if (errorCategory && policy.skipRetryOn.includes(errorCategory)) {
+      return { retry: false, reason: `${errorCategory} is not retryable` };
+    }
+
+    if (attempt >= policy.maxAttemptsPerDay) {
+      return { retry: false, reason: 'Daily attempt limit reached' };
+    }
+
+    const backoff = policy.backoffMinutes.length
+      ? policy.backoffMinutes[
+          Math.min(attempt - 1, policy.backoffMinutes.length - 1)
+        ]
+      : 0;
+
+    const retryAt = this.skipQuietHours(
+      new Date(now.getTime() + backoff * 60 * 1000),
+      policy,
+    );
+
+    const today = getZonedParts(now, policy.timezone);
+    const cutoffMinutes = parseTimeOfDay(policy.cutoffTime);
+    const cutoff = zonedTimeToUtc(
+      {
+        year: today.year,
+        month: today.month,
+        day: today.day,
+        hour: Math.floor(cutoffMinutes / 60),
+        minute: cutoffMinutes % 60,
+      },
+      policy.timezone,
+    );
+
+    if (retryAt.getTime() >= cutoff.getTime()) {
+      return { retry: false, reason: 'Retry would fall after daily cutoff' };
+    }
+
+    return {
+      retry: true,
+      nextAttempt: attempt + 1,
+      retryAt,
+      delayMs: retryAt.getTime() - now.getTime(),
+    };
+  }
+
+  private parseOverride(
+    scope: string,
+    raw: unknown,
+  ): RetryPolicyOverride | undefined {
+    if (raw === undefined || raw === null) return undefined;
+
+    const parsed = retryPolicyOverrideSchema.safeParse(raw);
+    if (parsed.success) return parsed.data;
+
+    if (!this.reportedOverrides.has(scope)) {
+      this.reportedOverrides.add(scope);
+      this.logger.error({
+        msg: 'Ignoring invalid retry policy in charging configuration',
+        scope,
+        issues: parsed.error.issues.map(
+          (issue) => `${issue.path.join('.')}: ${issue.message}`,
+        ),
+      });
+    }
+    return undefined;
+  }
+
+  /**
+   * Pushes a time that lands inside the quiet-hours window to its end.
+   * Windows may wrap midnight (e.g. 22:00-07:00).
+   */
+  private skipQuietHours(date: Date, policy: RetryPolicy): Date {
+    if (!policy.quietHours) return date;
+
+    const start = parseTimeOfDay(policy.quietHours.start);
+    const end = parseTimeOfDay(policy.quietHours.end);
+    const local = getZonedParts(date, policy.timezone);
+    const minuteOfDay = local.hour * 60 + local.minute;
+
+    const wraps = start > end;
+    const inQuietHours = wraps
+      ? minuteOfDay >= start || minuteOfDay < end
+      : minuteOfDay >= start && minuteOfDay < end;
+
+    if (!inQuietHours) return date;
+
+    const endsNextDay = wraps && minuteOfDay >= start;
+
+    return zonedTimeToUtc(
+      {
+        year: local.year,
+        month: local.month,
+        day: local.day + (endsNextDay ? 1 : 0),
+        hour: Math.floor(end / 60),
+        minute: end % 60,
+      },
+      policy.timezone,
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpClientService } from 'src/common/http-client/http-client.service';
+import {
+  SmsProvider,
+  SmsSendResult,
+} from './interfaces/sms-provider.interface';
+
+interface HttpSmsProviderConfig {
+  name: string;
+  url: string;
+  apiKey: string;
+  senderId: string;
+  timeout: number;
+}
+
+/**
+ * Generic JSON-over-HTTP SMS gateway client.
+ */
+@Injectable()
+export class HttpSmsProvider implements SmsProvider {
+  private readonly config: HttpSmsProviderConfig;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpClient: HttpClientService,
+  ) {
+    this.config =
+      this.configService.get<HttpSmsProviderConfig>('sms.provider')!;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  async send(msisdn: string, message: string): Promise<SmsSendResult> {
+    const payload = {
+      to: msisdn,
+      from: this.config.senderId,
+      message,
+    };
+    const headers = {
+      Authorization: `Bearer ${this.config.apiKey}`,
+      'Content-Type': 'application/json',
+    };
+
+    const response = await this.httpClient.post(this.config.url, payload, {
+      headers,
+      timeout: this.config.timeout,
+    });
+
+    const success =
+      !response.error && response.status >= 200 && response.status < 300;
+
+    return {
+      success,
+      httpStatus: response.status,
+      requestUrl: this.config.url,
+      requestPayload: payload,
+      // Never persist the credential.
+      requestHeaders: { ...headers, Authorization: 'Bearer ***' },
+      providerResponse: response.data as unknown,
+      errorCode: success
+        ? undefined
+        : (response.error?.code ?? String(response.status)),
+      errorMessage: success ? undefined : response.error?.message,
+    };
+  }
+}
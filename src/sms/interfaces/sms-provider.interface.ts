@@ -0,0 +1,24 @@
+/**
+ * Outcome of a single provider call, shaped after the `sms_logs` columns.
+ */
+export interface SmsSendResult {
+  success: boolean;
+  httpStatus: number;
+  requestUrl: string;
+  requestPayload: object;
+  requestHeaders?: Record<string, string>;
+  providerResponse?: unknown;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Contract for SMS gateways, so the provider can be swapped without touching
+ * the alerting or retry logic.
+ */
+export interface SmsProvider {
+  /** Stored in `sms_logs.provider`. */
+  readonly name: string;
+
+  send(msisdn: string, message: string): Promise<SmsSendResult>;
+}
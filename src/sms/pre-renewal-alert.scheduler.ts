@@ -0,0 +1,201 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { sms_templates } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { RedisService } from 'src/common/redis/redis.service';
+import { getZonedParts } from 'src/common/utils/timezone.util';
+import { SmsLogRepository } from 'src/database/sms-log.repository';
+import { SmsTemplateRepository } from 'src/database/sms-template.repository';
+import {
+  RenewableSubscriptionPayload,
+  SubscriptionRepository,
+} from 'src/database/subscription.repository';
+import { PricingService } from 'src/payment/pricing.service';
+import { PRE_RENEWAL_ALERT_EVENT } from './sms.constants';
+import { renderSmsTemplate } from './sms-template.renderer';
+import { SmsService } from './sms.service';
+
+const BATCH_SIZE = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const ALERT_LOCK_KEY = 'lock:pre_renewal_sms_alerts';
+// Below the hourly schedule, so a crashed run cannot block the next one.
+const ALERT_LOCK_TTL_SECONDS = 50 * 60;
+const RETRY_LOCK_KEY = 'lock:sms_retry';
+const RETRY_LOCK_TTL_SECONDS = 4 * 60;
+
+@Injectable()
+export class PreRenewalAlertScheduler {
+  private readonly enabled: boolean;
+  private readonly leadHours: number;
+  private readonly timezone: string;
+
+  constructor(
+    private readonly subscriptionRepo: SubscriptionRepository,
+    private readonly smsTemplateRepo: SmsTemplateRepository,
+    private readonly smsLogRepo: SmsLogRepository,
+    private readonly pricingService: PricingService,
+    private readonly smsService: SmsService,
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(PreRenewalAlertScheduler.name);
+    this.enabled = this.configService.get<boolean>(
+      'sms.preRenewalAlerts.enabled',
+      false,
+    );
+    this.leadHours = this.configService.get<number>(
+      'sms.preRenewalAlerts.leadHours',
+      24,
+    );
+    this.timezone = this.configService.get<string>(
+      'billing.timezone',
+      'Asia/Dhaka',
+    );
+  }
+
+  /**
+   * Alerts subscribers whose renewal is due within the configured lead time.
+   * A subscription is alerted at most once per lead window.
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'pre_renewal_sms_alerts' })
+  async handlePreRenewalAlerts() {
+    if (!this.enabled) return;
+
+    const lockToken = await this.redis.acquireLock(
+      ALERT_LOCK_KEY,
+      ALERT_LOCK_TTL_SECONDS,
+      1,
+    );
+    if (!lockToken) return;
+
+    try {
+      await this.sendPreRenewalAlerts();
+    } catch (error) {
+      this.logger.error(
+        { error: String(error) },
+        'Pre-renewal SMS alert run failed.',
+      );
+    } finally {
+      await this.redis.releaseLock(ALERT_LOCK_KEY, lockToken);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: 'sms_retry' })
+  async handleRetries() {
+    const lockToken = await this.redis.acquireLock(
+      RETRY_LOCK_KEY,
+      RETRY_LOCK_TTL_SECONDS,
+      1,
+    );
+    if (!lockToken) return;
+
+    try {
+      const retried = await this.smsService.retryDueMessages();
+      if (retried) {
+        this.logger.info({ msg: 'Retried failed SMS messages', retried });
+      }
+    } catch (error) {
+      this.logger.error({ error: String(error) }, 'SMS retry run failed.');
+    } finally {
+      await this.redis.releaseLock(RETRY_LOCK_KEY, lockToken);
+    }
+  }
+
+  private async sendPreRenewalAlerts() {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + this.leadHours * HOUR_MS);
+    const alertedSince = new Date(now.getTime() - this.leadHours * HOUR_MS);
+    const templates = new Map<string, sms_templates | null>();
+
+    let cursor: bigint | undefined;
+    let sent = 0;
+
+    while (true) {
+      const subscriptions =
+        await this.subscriptionRepo.findSubscriptionsDueBetween(
+          now,
+          windowEnd,
+          BATCH_SIZE,
+          cursor,
+        );
+      if (subscriptions.length === 0) break;
+
+      const alreadyAlerted = await this.smsLogRepo.findNotifiedSubscriptionIds(
+        PRE_RENEWAL_ALERT_EVENT,
+        subscriptions.map((sub) => sub.subscription_id),
+        alertedSince,
+      );
+
+      for (const sub of subscriptions) {
+        if (alreadyAlerted.has(sub.subscription_id)) continue;
+
+        const operator = sub.payment_channels.code;
+        if (!templates.has(operator)) {
+          templates.set(
+            operator,
+            await this.smsTemplateRepo.findLatest(
+              PRE_RENEWAL_ALERT_EVENT,
+              operator,
+            ),
+          );
+        }
+
+        const template = templates.get(operator);
+        if (!template) continue;
+
+        const message = await this.renderAlert(template.template, sub);
+        if (!message) continue;
+
+        if (
+          await this.smsService.send({
+            msisdn: sub.msisdn,
+            message,
+            eventType: PRE_RENEWAL_ALERT_EVENT,
+            subscriptionId: sub.subscription_id,
+          })
+        ) {
+          sent++;
+        }
+      }
+
+      cursor = subscriptions[subscriptions.length - 1].id;
+    }
+
+    const missingTemplates = [...templates]
+      .filter(([, template]) => !template)
+      .map(([operator]) => operator);
+    if (missingTemplates.length) {
+      this.logger.warn({
+        msg: 'No pre-renewal SMS template for operators',
+        operators: missingTemplates,
+      });
+    }
+
+    this.logger.info({ msg: 'Pre-renewal SMS alerts sent', sent });
+  }
+
+  private async renderAlert(
+    template: string,
+    sub: RenewableSubscriptionPayload,
+  ): Promise<string | null> {
+    if (!sub.next_billing_at) return null;
+
+    const renewalAt = new Date(sub.next_billing_at);
+    const pricing = await this.pricingService.resolve(sub, renewalAt);
+    const { year, month, day } = getZonedParts(renewalAt, this.timezone);
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return renderSmsTemplate(template, {
+      msisdn: sub.msisdn,
+      productName: sub.products.name,
+      planName: sub.product_plans.plan_name,
+      amount: pricing?.amountWithVat ?? '',
+      currency: pricing?.currency ?? '',
+      renewalDate: `${pad(day)}-${pad(month)}-${year}`,
+      billingCycleDays: sub.product_plans.billing_cycle_days,
+    });
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Replaces `{{name}}` placeholders with the matching variable. Unknown
+ * placeholders are left untouched so a template typo is visible in the log.
+ */
+export function renderSmsTemplate(
+  template: string,
+  variables: Record<string, string | number>,
+): string {
+  return template.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (placeholder, name: string) =>
+      name in variables ? String(variables[name]) : placeholder,
+  );
+}
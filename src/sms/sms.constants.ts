@@ -0,0 +1,15 @@
+/**
+ * Injection token for the active {@link SmsProvider} implementation.
+ */
+export const SMS_PROVIDER = Symbol('SMS_PROVIDER');
+
+/**
+ * `sms_logs.delivery_status` values.
+ */
+export const SMS_DELIVERY_STATUS = {
+  SENT: 'SENT', // Accepted by the provider
+  RETRY_SCHEDULED: 'RETRY_SCHEDULED', // Failed, will be retried at next_retry_at
+  FAILED: 'FAILED', // Failed and out of retries
+} as const;
+
+export const PRE_RENEWAL_ALERT_EVENT = 'pre.renewal.alert';
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { HttpClientModule } from 'src/common/http-client/http-client.module';
+import { PaymentModule } from 'src/payment/payment.module';
+import { HttpSmsProvider } from './http-sms.provider';
+import { PreRenewalAlertScheduler } from './pre-renewal-alert.scheduler';
+import { SMS_PROVIDER } from './sms.constants';
+import { SmsService } from './sms.service';
+
+@Module({
+  imports: [HttpClientModule, PaymentModule],
+  providers: [
+    { provide: SMS_PROVIDER, useClass: HttpSmsProvider },
+    SmsService,
+    PreRenewalAlertScheduler,
+  ],
+  exports: [SmsService],
+})
+export class SmsModule {}
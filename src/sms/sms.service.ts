@@ -0,0 +1,162 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, sms_logs } from '@prisma/client';
+import { PinoLogger } from 'nestjs-pino';
+import { SmsLogRepository } from 'src/database/sms-log.repository';
+import type {
+  SmsProvider,
+  SmsSendResult,
+} from './interfaces/sms-provider.interface';
+import { SMS_DELIVERY_STATUS, SMS_PROVIDER } from './sms.constants';
+
+export interface SmsSendRequest {
+  msisdn: string;
+  message: string;
+  eventType: string;
+  subscriptionId?: string;
+}
+
+const RETRY_BATCH_SIZE = 500;
+
+@Injectable()
+export class SmsService {
+  private readonly maxRetries: number;
+  private readonly retryBackoffMinutes: number;
+
+  constructor(
+    @Inject(SMS_PROVIDER) private readonly provider: SmsProvider,
+    private readonly smsLogRepo: SmsLogRepository,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(SmsService.name);
+    this.maxRetries = this.configService.get<number>('sms.maxRetries', 3);
+    this.retryBackoffMinutes = this.configService.get<number>(
+      'sms.retryBackoffMinutes',
+      15,
+    );
+  }
+
+  /**
+   * Sends an SMS and writes the `sms_logs` row, scheduling a retry on failure.
+   */
+  async send(request: SmsSendRequest): Promise<boolean> {
+    const result = await this.callProvider(request.msisdn, request.message);
+    const now = new Date();
+
+    await this.smsLogRepo.create({
+      msisdn: request.msisdn,
+      message: request.message,
+      event_type: request.eventType,
+      related_subscription_id: request.subscriptionId,
+      provider: this.provider.name,
+      max_retries: this.maxRetries,
+      retry_count: 0,
+      ...this.toLogFields(result, 0, now),
+    });
+
+    return result.success;
+  }
+
+  /**
+   * Re-sends every message whose retry is due. Messages that fail on their
+   * last allowed retry are marked FAILED.
+   */
+  async retryDueMessages(now: Date = new Date()): Promise<number> {
+    const dueLogs = await this.smsLogRepo.findDueRetries(
+      SMS_DELIVERY_STATUS.RETRY_SCHEDULED,
+      now,
+      RETRY_BATCH_SIZE,
+    );
+
+    for (const log of dueLogs) {
+      await this.retry(log, now);
+    }
+
+    return dueLogs.length;
+  }
+
+  private async retry(log: sms_logs, now: Date): Promise<void> {
+    const result = await this.callProvider(log.msisdn, log.message);
+    const retryCount = (log.retry_count ?? 0) + 1;
+
+    await this.smsLogRepo.update(
+      { id: log.id },
+      {
+        retry_count: retryCount,
+        ...this.toLogFields(
+          result,
+          retryCount,
+          now,
+          log.max_retries ?? this.maxRetries,
+        ),
+      },
+    );
+
+    this.logger.info({
+      msg: 'SMS retry attempted',
+      smsLogId: log.id.toString(),
+      retryCount,
+      success: result.success,
+    });
+  }
+
+  private async callProvider(
+    msisdn: string,
+    message: string,
+  ): Promise<SmsSendResult> {
+    try {
+      return await this.provider.send(msisdn, message);
+    } catch (error) {
+      this.logger.error(
+        { error: String(error), msisdn },
+        'SMS provider call threw.',
+      );
+      return {
+        success: false,
+        httpStatus: 0,
+        requestUrl: '',
+        requestPayload: { msisdn, message },
+        errorCode: 'PROVIDER_ERROR',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Maps a provider result to the delivery and retry columns of `sms_logs`.
+   * Retries back off exponentially from `retryBackoffMinutes`.
+   */
+  private toLogFields(
+    result: SmsSendResult,
+    retryCount: number,
+    now: Date,
+    maxRetries: number = this.maxRetries,
+  ) {
+    const canRetry = !result.success && retryCount < maxRetries;
+    const backoffMs = this.retryBackoffMinutes * 2 ** retryCount * 60 * 1000;
+
+    let deliveryStatus: string = SMS_DELIVERY_STATUS.FAILED;
+    if (result.success) {
+      deliveryStatus = SMS_DELIVERY_STATUS.SENT;
+    } else if (canRetry) {
+      deliveryStatus = SMS_DELIVERY_STATUS.RETRY_SCHEDULED;
+    }
+
+    return {
+      request_url: result.requestUrl,
+      request_payload: result.requestPayload as Prisma.InputJsonValue,
+      request_headers: result.requestHeaders,
+      http_status: result.httpStatus,
+      provider_response:
+        (result.providerResponse as Prisma.InputJsonValue) ?? Prisma.JsonNull,
+      delivery_status: deliveryStatus,
+      error_code: result.errorCode?.slice(0, 20) ?? null,
+      error_message: result.errorMessage ?? null,
+      sent_at: result.success ? now : null,
+      failed_at: result.success || canRetry ? null : now,
+      next_retry_at: canRetry ? new Date(now.getTime() + backoffMs) : null,
+      updated_at: now,
+    };
+  }
+}